@@ -14,6 +14,8 @@ export default {
   testTimeout: 30000,
   verbose: true,
   moduleNameMapper: {
+    // Tests run as CommonJS, where import.meta isn't available; read the same file directly
+    '^\\./packageInfo\\.js$': '<rootDir>/package.json',
     '^(\\.{1,2}/.*)\\.js$': '$1'
   },
   transform: {
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for "Referenced by" backlinks built from footnote cross-references
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ParsedFootnote } from '../../types/index.js';
+import { createBacklinksGenerator } from '../../services/backlinks.js';
+import { ManifestStore } from '../../services/manifest.js';
+import { noteReferences } from '../../utils/chapters.js';
+
+const romansNotes: ParsedFootnote[] = [
+  {
+    id: 'note_12', number: 12, type: 'sn', content: 'See John 3:16-18 and John 1.', verse: 8,
+    verseReferences: [
+      { book: 'John', chapter: 3, verse: 16, endVerse: 18, display: 'John 3:16-18' },
+      { book: 'John', chapter: 1, display: 'John 1' }
+    ]
+  },
+  {
+    id: 'note_13', number: 13, type: 'tn', content: 'Compare 5:1.', verse: 9,
+    verseReferences: [{ book: 'Romans', chapter: 5, verse: 1, display: '5:1' }]
+  }
+];
+
+describe('Backlinks', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bible2md-backlinks-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(outputDir);
+  });
+
+  it('should record where each note points, ranges by their first verse', () => {
+    expect(noteReferences(romansNotes)).toEqual([
+      { verse: 8, book: 'John', chapter: 3, toVerse: 16, type: 'sn', note: 'note_12' },
+      { verse: 8, book: 'John', chapter: 1, type: 'sn', note: 'note_12' },
+      { verse: 9, book: 'Romans', chapter: 5, toVerse: 1, type: 'tn', note: 'note_13' }
+    ]);
+  });
+
+  it('should index the notes of other chapters in canonical order', async () => {
+    const store = new ManifestStore(outputDir, 'abc');
+    await store.record('Romans', 5, '# Romans 5', 21, false, { references: noteReferences(romansNotes) });
+    const toJohn316 = { book: 'John', chapter: 3, toVerse: 16, type: 'sn' };
+    await store.record('1 John', 4, '# 1 John 4', 21, false, {
+      references: [{ verse: 9, ...toJohn316, note: 'note_20' }, { verse: 9, ...toJohn316, note: 'note_21' }]
+    });
+    await store.record('Genesis', 22, '# Genesis 22', 24, false, { references: [{ verse: 2, ...toJohn316, note: 'note_4' }] });
+
+    const backlinks = store.backlinks();
+
+    expect(backlinks.get('John 3')).toEqual([
+      { book: 'Genesis', chapter: 22, verse: 2, toVerse: 16 },
+      { book: 'Romans', chapter: 5, verse: 8, toVerse: 16 },
+      { book: '1 John', chapter: 4, verse: 9, toVerse: 16 }
+    ]);
+    expect(backlinks.get('John 1')).toEqual([{ book: 'Romans', chapter: 5, verse: 8, toVerse: undefined }]);
+    // Notes pointing within their own chapter are already linked one way
+    expect(backlinks.has('Romans 5')).toBe(false);
+  });
+
+  it('should list the referring notes under each verse', () => {
+    const section = createBacklinksGenerator().generateSection('John', 3, [
+      { book: 'Romans', chapter: 5, verse: 8, toVerse: 16 },
+      { book: 'Genesis', chapter: 1, toVerse: 5 },
+      { book: '1 John', chapter: 4, verse: 9, toVerse: 16 },
+      { book: 'Psalms', chapter: 2, verse: 7 }
+    ]);
+
+    expect(section).toBe(
+      '\n---\n\n## Referenced By\n\n' +
+      '- **John 3**: [[Psalms 2#7|Psalms 2:7]]\n' +
+      '- **3:5**: [[Genesis 1|Genesis 1]]\n' +
+      '- **3:16**: [[Romans 5#8|Romans 5:8]]; [[1 John 4#9|1 John 4:9]]\n'
+    );
+  });
+
+  it('should point reading-style backlinks at the paragraph holding the verse', async () => {
+    const store = new ManifestStore(outputDir, 'abc');
+    await store.record('Romans', 5, '# Romans 5', 21, false, { paragraphs: ['1-5', '6-11'] });
+    const anchor = (book: string, chapter: number, verse: number) => store.verseBlock(book, chapter, verse);
+
+    const section = createBacklinksGenerator().generateSection('John', 3, [
+      { book: 'Romans', chapter: 5, verse: 8, toVerse: 16 },
+      { book: 'Genesis', chapter: 22, verse: 2, toVerse: 16 }
+    ], anchor);
+
+    expect(section).toContain('- **3:16**: [[Romans 5#^6-11|Romans 5:8]]; [[Genesis 22|Genesis 22:2]]\n');
+  });
+
+  it('should replace the section of an earlier run', () => {
+    const generator = createBacklinksGenerator();
+    const chapter = '# John 3\n\n[[John 2|← John 2]]';
+    const section = generator.generateSection('John', 3, [{ book: 'Romans', chapter: 5, verse: 8, toVerse: 16 }]);
+
+    const linked = generator.applySection(chapter, section);
+    expect(linked).toBe(`${chapter}\n\n---\n\n## Referenced By\n\n- **3:16**: [[Romans 5#8|Romans 5:8]]`);
+    expect(generator.applySection(linked, section)).toBe(linked);
+    expect(generator.applySection(linked, '')).toBe(chapter);
+  });
+});
\ No newline at end of file
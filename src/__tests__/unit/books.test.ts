@@ -0,0 +1,44 @@
+/**
+ * Unit tests for the canonical book registry
+ */
+
+import { BIBLE_BOOKS } from '../../utils/constants.js';
+import { findBook, findBookByName, findBookByOsisCode, findBookByUsfmCode, resolveBookName } from '../../utils/books.js';
+
+describe('Book Registry', () => {
+  it('should list 66 books in canonical order with their testament', () => {
+    expect(BIBLE_BOOKS).toHaveLength(66);
+    expect(BIBLE_BOOKS.map(book => book.order)).toEqual(Array.from({ length: 66 }, (_, i) => i + 1));
+    expect(BIBLE_BOOKS.filter(book => book.testament === 'Old')).toHaveLength(39);
+    expect(BIBLE_BOOKS.reduce((sum, book) => sum + book.chapters, 0)).toBe(1189);
+  });
+
+  it('should give every name, code and alias to one book only', () => {
+    const owners = new Map<string, string>();
+    BIBLE_BOOKS.forEach(book => {
+      [book.name, book.usfm, book.osis, book.sbl, book.netbible, ...book.aliases].forEach(key => {
+        const normalized = key.toLowerCase().replace(/[.\s]/g, '');
+        expect([book.name, undefined]).toContain(owners.get(normalized));
+        owners.set(normalized, book.name);
+      });
+    });
+  });
+
+  it('should find books by each scheme', () => {
+    expect(findBookByName('1 Corinthians')).toMatchObject({ usfm: '1CO', osis: '1Cor', sbl: '1 Cor', netbible: '1Co', order: 46 });
+    expect(findBookByName('1 corinthians')).toBeUndefined();
+    expect(findBookByUsfmCode('jhn')?.name).toBe('John');
+    expect(findBookByOsisCode('Ps')?.name).toBe('Psalms');
+  });
+
+  it('should resolve any name, code, alias or unambiguous abbreviation', () => {
+    expect(findBook('Ge')?.name).toBe('Genesis');
+    expect(findBook('1 Kgs.')?.name).toBe('1 Kings');
+    expect(findBook('Revelations')?.name).toBe('Revelation');
+    expect(findBook('Philipp')?.name).toBe('Philippians');
+    expect(resolveBookName('Phil')).toBe('Philippians');
+    expect(resolveBookName('Phlm')).toBe('Philemon');
+    expect(resolveBookName('Jo')).toBeUndefined();
+    expect(resolveBookName('Nicodemus')).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the on-disk response cache and offline mode
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheMissError, ResponseCache } from '../../services/cache.js';
+import { BibleApiService } from '../../services/api.js';
+import { CacheKey } from '../../types/index.js';
+
+describe('Response Cache', () => {
+  let cacheDir: string;
+  let cache: ResponseCache;
+
+  const textKey: CacheKey = {
+    kind: 'text',
+    book: 'John',
+    chapters: Array.from({ length: 20 }, (_, i) => i + 1),
+    translation: 'net_strongs2+nasb'
+  };
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bible2md-cache-'));
+    cache = new ResponseCache(cacheDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(cacheDir);
+  });
+
+  it('should return null on a miss and the stored data on a hit', async () => {
+    expect(await cache.get(textKey)).toBeNull();
+
+    await cache.set(textKey, { bible1: '<div>NET</div>', bible2: '<div>NASB</div>' });
+
+    expect(await cache.get(textKey)).toEqual({ bible1: '<div>NET</div>', bible2: '<div>NASB</div>' });
+  });
+
+  it('should key entries by book, chapters and translation', () => {
+    const hash = ResponseCache.hashKey(textKey);
+
+    expect(ResponseCache.hashKey({ ...textKey })).toBe(hash);
+    expect(ResponseCache.hashKey({ ...textKey, chapters: [3] })).not.toBe(hash);
+    expect(ResponseCache.hashKey({ ...textKey, translation: 'nasb+net_strongs2' })).not.toBe(hash);
+    expect(ResponseCache.hashKey({ ...textKey, kind: 'notes' })).not.toBe(hash);
+  });
+
+  it('should summarize entries by kind and translation', async () => {
+    await cache.set(textKey, { bible1: '', bible2: '' });
+    await cache.set({ kind: 'notes', book: 'John', chapters: [3], translation: 'net_strongs2' }, '<div/>');
+
+    const stats = await cache.inspect();
+
+    expect(stats.entries).toBe(2);
+    expect(stats.size).toBeGreaterThan(0);
+    expect(stats.byKind).toEqual({ text: 1, notes: 1 });
+    expect(stats.byTranslation).toEqual({ 'net_strongs2+nasb': 1, 'net_strongs2': 1 });
+  });
+
+  it('should prune entries by age or entirely', async () => {
+    await cache.set(textKey, { bible1: '', bible2: '' });
+
+    expect((await cache.prune({ olderThanDays: 1 })).removed).toBe(0);
+    expect((await cache.prune({ all: true })).removed).toBe(1);
+    expect((await cache.inspect()).entries).toBe(0);
+  });
+
+  describe('offline mode', () => {
+    it('should serve cached chapters without touching the network', async () => {
+      await cache.set(textKey, { bible1: '<div>cached</div>', bible2: '' });
+      const api = new BibleApiService({ cache, offline: true });
+
+      const responses = await api.fetchBookChapters('John', textKey.chapters, 'net_strongs2', 'nasb');
+
+      expect(responses).toEqual([{ bible1: '<div>cached</div>', bible2: '' }]);
+    });
+
+    it('should only request the selected chapters, batched by window', async () => {
+      await cache.set({ ...textKey, chapters: [3] }, { bible1: '<div>John 3</div>', bible2: '' });
+      await cache.set({ ...textKey, chapters: [19, 20] }, { bible1: '<div>John 19-20</div>', bible2: '' });
+      await cache.set({ ...textKey, chapters: [21] }, { bible1: '<div>John 21</div>', bible2: '' });
+      const api = new BibleApiService({ cache, offline: true });
+
+      expect(await api.fetchBookChapters('John', [3], 'net_strongs2', 'nasb')).toEqual([{ bible1: '<div>John 3</div>', bible2: '' }]);
+      expect((await api.fetchBookChapters('John', [21, 19, 20], 'net_strongs2', 'nasb')).map(response => response.bible1))
+        .toEqual(['<div>John 19-20</div>', '<div>John 21</div>']);
+    });
+
+    it('should fail fast on a cache miss', async () => {
+      const api = new BibleApiService({ cache, offline: true });
+
+      await expect(api.fetchFootnotes('John', 3, 'net_strongs2')).rejects.toBeInstanceOf(CacheMissError);
+    });
+
+    it('should require a cache', () => {
+      expect(() => new BibleApiService({ offline: true })).toThrow('requires the response cache');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the Strong's concordance
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { StrongsOccurrence } from '../../types/index.js';
+import { createParser } from '../../services/parser.js';
+import { createConcordanceGenerator } from '../../services/concordance.js';
+import { StrongsStore } from '../../services/strongsStore.js';
+import { STRONGS_INDEX_DIR_NAME } from '../../utils/constants.js';
+import { chapterStrongs } from '../../utils/chapters.js';
+
+const johnHtml = `
+<div class="chunk" id="netText_John_3">
+  <p class="bodytext">
+    <span id="netText_John_3_16" class="netVerse ">
+      <span class="vref"><span class="verseNumber">16</span></span>
+      For this is the way <st data-num="2316">God</st> <st data-num="25">loved</st> the world.
+    </span>
+    <span id="netText_John_3_35" class="netVerse ">
+      <span class="vref"><span class="verseNumber">35</span></span>
+      The Father <st data-num="25">loves</st> the Son, and the <st data-num="2316">Father</st>.
+    </span>
+  </p>
+</div>`;
+
+const occurrences: StrongsOccurrence[] = [
+  { book: 'John', chapter: 3, verse: 16, word: 'loved' },
+  { book: 'John', chapter: 3, verse: 35, word: 'loves' },
+  { book: '1 John', chapter: 4, verse: 7, word: 'love' },
+  { book: '1 John', chapter: 4, verse: 7, word: 'loves' },
+  { book: '1 John', chapter: 4, verse: 10, word: 'loved' }
+];
+
+describe("Strong's Concordance", () => {
+  describe('StrongsStore', () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+      outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bible2md-strongs-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(outputDir);
+    });
+
+    it('should keep one file per book and list the given chapters in order', async () => {
+      const store = new StrongsStore(outputDir);
+      await Promise.all([
+        store.record('John', 3, { G25: [{ verse: 16, word: 'loved' }] }),
+        store.record('John', 1, { G25: [{ verse: 5, word: 'love' }], G2316: [{ verse: 1, word: 'God' }] }),
+        store.record('1 John', 4, { G25: [{ verse: 7, word: 'love' }] })
+      ]);
+
+      expect((await fs.readdir(path.join(outputDir, STRONGS_INDEX_DIR_NAME))).sort()).toEqual(['1 John.json', 'John.json']);
+
+      const reloaded = new StrongsStore(outputDir);
+      const found = await reloaded.occurrences([{ name: 'John', chapters: [1, 3] }, { name: '1 John', chapters: [4] }]);
+      expect(found.get('G25')).toEqual([
+        { book: 'John', chapter: 1, verse: 5, word: 'love' },
+        { book: 'John', chapter: 3, verse: 16, word: 'loved' },
+        { book: '1 John', chapter: 4, verse: 7, word: 'love' }
+      ]);
+      expect((await reloaded.occurrences([{ name: 'John', chapters: [3] }])).has('G2316')).toBe(false);
+    });
+
+    it('should keep the chapters of earlier runs when recording more', async () => {
+      await new StrongsStore(outputDir).record('John', 1, { G2316: [{ verse: 1, word: 'God' }] });
+      await new StrongsStore(outputDir).record('John', 3, { G2316: [{ verse: 16, word: 'God' }] });
+
+      const found = await new StrongsStore(outputDir).occurrences([{ name: 'John', chapters: [1, 3] }]);
+      expect(found.get('G2316')?.map(occurrence => occurrence.chapter)).toEqual([1, 3]);
+    });
+  });
+
+  describe('chapterStrongs', () => {
+    it('should collect tagged words by number in verse order', () => {
+      const [chapter] = createParser().parseChapters(johnHtml);
+
+      expect(chapterStrongs(chapter.sections)).toEqual({
+        G2316: [{ verse: 16, word: 'God' }, { verse: 35, word: 'Father' }],
+        G25: [{ verse: 16, word: 'loved' }, { verse: 35, word: 'loves' }]
+      });
+    });
+
+    it("should be empty for text without Strong's numbers", () => {
+      const sections = [{ paragraphs: [{ verses: [{ number: 1, text: 'In the beginning', id: 'v1' }] }] }];
+
+      expect(chapterStrongs(sections)).toEqual({});
+    });
+  });
+
+  describe('ConcordanceGenerator', () => {
+    const generator = createConcordanceGenerator();
+
+    it('should count translations and occurrences per book', () => {
+      const markdown = generator.generateNote('G25', occurrences);
+
+      expect(markdown).toContain("# G25\n\nGreek · 5 occurrences · [[Strong's Concordance]]");
+      expect(markdown).toContain('## Translated As\n\n- loved (2)\n- loves (2)\n- love (1)\n');
+      expect(markdown).toContain('| [[John]] | 2 |\n| [[1 John]] | 3 |\n');
+    });
+
+    it('should link every verse once, with the words it uses', () => {
+      const markdown = generator.generateNote('G25', occurrences);
+
+      expect(markdown).toContain('## John\n\n- [[John 3#16]] loved\n- [[John 3#35]] loves\n');
+      expect(markdown).toContain('## 1 John\n\n- [[1 John 4#7]] love, loves\n- [[1 John 4#10]] loved\n');
+    });
+
+    it('should index Hebrew then Greek numbers in numeric order', () => {
+      const concordance = new Map([
+        ['G106', occurrences.slice(0, 1)],
+        ['G25', occurrences],
+        ['H7225', occurrences.slice(0, 2)]
+      ]);
+
+      expect(generator.generateIndex(concordance)).toBe(
+        "# Strong's Concordance\n\n" +
+        '## Hebrew\n\n- [[H7225]] (2)\n\n' +
+        '## Greek\n\n- [[G25]] (5)\n- [[G106]] (1)\n\n'
+      );
+    });
+  });
+});
\ No newline at end of file
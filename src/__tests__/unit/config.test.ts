@@ -0,0 +1,190 @@
+/**
+ * Unit tests for project config discovery, validation and merging
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConfigError,
+  findConfigFile,
+  loadProjectConfig,
+  mergeSetupConfig,
+  saveProjectConfig,
+  validateProjectConfig
+} from '../../services/config.js';
+
+describe('Project Config', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bible2md-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  describe('findConfigFile', () => {
+    it('should find a config file in a parent directory', async () => {
+      const nested = path.join(tempDir, 'a', 'b');
+      await fs.ensureDir(nested);
+      await fs.writeFile(path.join(tempDir, '.bible2mdrc'), '{}');
+
+      expect(findConfigFile(nested)).toBe(path.join(tempDir, '.bible2mdrc'));
+    });
+
+    it('should prefer bible2md.config.json over .bible2mdrc', async () => {
+      await fs.writeFile(path.join(tempDir, '.bible2mdrc'), '{}');
+      await fs.writeFile(path.join(tempDir, 'bible2md.config.json'), '{}');
+
+      expect(findConfigFile(tempDir)).toBe(path.join(tempDir, 'bible2md.config.json'));
+    });
+  });
+
+  describe('validateProjectConfig', () => {
+    it('should accept a valid config', () => {
+      const config = validateProjectConfig({
+        version: 'NASB',
+        style: 'simple',
+        outputDir: './vault',
+        speedMode: 'fast',
+        books: ['John 3-5']
+      }, 'bible2md.config.json');
+
+      expect(config).toEqual({
+        version: 'NASB',
+        style: 'simple',
+        outputDir: './vault',
+        speedMode: 'fast',
+        books: ['John 3-5']
+      });
+    });
+
+    it('should report unknown keys with a suggestion', () => {
+      expect(() => validateProjectConfig({ outDir: './vault' }, 'bible2md.config.json'))
+        .toThrow('Unknown key "outDir" (did you mean "outputDir"?)');
+    });
+
+    it('should report every invalid value at once', () => {
+      try {
+        validateProjectConfig({ version: 'KJV', style: 3, books: ['John 40'] }, 'bible2md.config.json');
+        fail('Expected a ConfigError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigError);
+        expect((error as ConfigError).issues).toHaveLength(3);
+        expect((error as ConfigError).issues[0]).toContain('"version" must be one of "NET", "NASB"');
+      }
+    });
+
+    it('should accept any version code for local sources', () => {
+      expect(validateProjectConfig({ source: 'usfm', input: './web', version: 'WEB' }, 'x'))
+        .toEqual({ source: 'usfm', input: './web', version: 'WEB' });
+    });
+
+    it('should accept versions registered in the same file', () => {
+      const versions = [{ code: 'KJV', name: 'King James Version', source: 'osis', input: './kjv.xml', footnotes: false }];
+
+      expect(validateProjectConfig({ version: 'KJV', versions }, 'x')).toEqual({ version: 'KJV', versions });
+    });
+
+    it('should report malformed version entries', () => {
+      expect(() => validateProjectConfig({ versions: [{ code: 'KJV', source: 'osis' }] }, 'x'))
+        .toThrow('"versions" [0] is missing "name"');
+      expect(() => validateProjectConfig({ versions: [{ code: 'KJV', name: 'KJV', source: 'osis', versification: 'kjv' }] }, 'x'))
+        .toThrow('"versions" [0].versification must be one of "english", "original"');
+      expect(() => validateProjectConfig({ versions: [{ code: 'NETX', name: 'NET copy', source: 'netbible' }] }, 'x'))
+        .toThrow('"versions" [0] is missing "translation", which netbible.org entries need');
+    });
+
+    it('should validate per-style formatting', () => {
+      const formatting = { study: { wordsOfJesus: 'off' }, classes: { wordsOfJesus: 'red' } };
+
+      expect(validateProjectConfig({ formatting }, 'x')).toEqual({ formatting });
+      expect(() => validateProjectConfig({ formatting: { simple: { wordsOfJesus: 'markdown' } } }, 'x'))
+        .toThrow('"formatting" .simple.wordsOfJesus must be one of "off", "html"');
+      expect(() => validateProjectConfig({ formatting: { classes: { added: 'not a class' } } }, 'x'))
+        .toThrow('"formatting" .classes.added must be a CSS class name');
+    });
+
+    it('should validate note types and layout', () => {
+      expect(validateProjectConfig({ noteTypes: ['sn', 'tn'], noteLayout: 'callouts' }, 'x'))
+        .toEqual({ noteTypes: ['sn', 'tn'], noteLayout: 'callouts' });
+      expect(() => validateProjectConfig({ noteTypes: ['study'] }, 'x')).toThrow('"noteTypes" must be a non-empty array of "tn", "sn"');
+      expect(() => validateProjectConfig({ noteLayout: 'popups' }, 'x')).toThrow('"noteLayout" must be one of "footnotes", "callouts", "collapsed"');
+    });
+
+    it('should ignore $schema', () => {
+      expect(validateProjectConfig({ $schema: './schema.json' }, 'x')).toEqual({});
+    });
+  });
+
+  describe('loadProjectConfig', () => {
+    it('should round-trip saved answers', async () => {
+      const filePath = path.join(tempDir, 'bible2md.config.json');
+      await saveProjectConfig({ style: 'study', version: 'NET' }, filePath);
+
+      const loaded = await loadProjectConfig(filePath);
+
+      expect(loaded).toEqual({ filePath, config: { version: 'NET', style: 'study' } });
+      expect(await fs.readFile(filePath, 'utf8')).toBe('{\n  "version": "NET",\n  "style": "study"\n}\n');
+    });
+
+    it('should resolve paths against the config file when run from a nested directory', async () => {
+      const projectDir = await fs.realpath(tempDir);
+      const nested = path.join(projectDir, 'notes', 'drafts');
+      await fs.ensureDir(nested);
+      await fs.writeJson(path.join(projectDir, 'bible2md.config.json'), {
+        source: 'usfm', input: 'sources/web.usfm', outputDir: './vault', cacheDir: '../cache'
+      });
+
+      const cwd = process.cwd();
+      process.chdir(nested);
+      try {
+        const loaded = await loadProjectConfig();
+
+        expect(loaded?.config).toEqual({
+          source: 'usfm',
+          input: path.join(projectDir, 'sources', 'web.usfm'),
+          outputDir: path.join(projectDir, 'vault'),
+          cacheDir: path.join(path.dirname(projectDir), 'cache')
+        });
+      } finally {
+        process.chdir(cwd);
+      }
+    });
+
+    it('should save paths relative to the config file', async () => {
+      const filePath = path.join(tempDir, 'bible2md.config.json');
+      await saveProjectConfig({ outputDir: path.join(tempDir, 'vault'), cacheDir: tempDir }, filePath);
+
+      expect(await fs.readJson(filePath)).toEqual({ outputDir: 'vault', cacheDir: '.' });
+      expect((await loadProjectConfig(filePath))?.config).toEqual({ outputDir: path.join(tempDir, 'vault'), cacheDir: tempDir });
+    });
+
+    it('should reject malformed JSON', async () => {
+      const filePath = path.join(tempDir, '.bible2mdrc');
+      await fs.writeFile(filePath, '{ version: NET }');
+
+      await expect(loadProjectConfig(filePath)).rejects.toThrow('Not valid JSON');
+    });
+  });
+
+  describe('mergeSetupConfig', () => {
+    it('should let flags override the config file and defaults', () => {
+      const config = mergeSetupConfig(
+        { version: 'NASB', outputDir: './vault' },
+        { outputDir: './other', style: undefined }
+      );
+
+      expect(config).toEqual({
+        version: 'NASB',
+        style: 'study',
+        outputDir: './other',
+        speedMode: 'balanced',
+        cache: true,
+        offline: false
+      });
+    });
+  });
+});
\ No newline at end of file
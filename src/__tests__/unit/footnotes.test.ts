@@ -3,6 +3,7 @@
  */
 
 import { createFootnotesParser } from '../../services/footnotes.js';
+import { createMarkdownGenerator } from '../../services/markdown.js';
 
 describe('Footnotes Parser', () => {
   let footnotesParser: ReturnType<typeof createFootnotesParser>;
@@ -149,4 +150,35 @@ describe('Footnotes Parser', () => {
       });
     });
   });
+
+  describe('note content', () => {
+    const html = `
+      <div class="note"><sup><span class="noteNoteSuper" id="note_8">8</span>&nbsp;</sup><span class="notetype">sn</span>
+        Or <i>born again</i>. The <b>Greek</b> word <span class="greek">ἄνωθεν</span> (<span class="translit">anōthen</span>)
+        can mean both "again" and "from above" (v. <data ref="Bible:Jn 3:4">4</data>).
+        <p class="note"><span class="notetype">tn</span> Compare <span class="hebrew">רוּחַ</span>.</p>
+      </div>
+    `;
+
+    it('should keep emphasis and original-language words as markdown', () => {
+      const [footnote] = footnotesParser.parseFootnotes(html);
+
+      expect(footnote.content).toBe(
+        'Or *born again*. The **Greek** word <span lang="grc">ἄνωθεν</span> (*anōthen*) can mean both "again" and "from above" ' +
+        '(v. <data ref="Bible:Jn 3:4">4</data>). Compare <span lang="hbo">רוּחַ</span>.'
+      );
+    });
+
+    it('should render original-language words the way they are configured', () => {
+      const footnotes = footnotesParser.parseFootnotes(html).map(footnote => ({ ...footnote, verse: 3 }));
+      const chapter = { book: 'John', chapter: 3, sections: [] };
+      const render = (mode?: 'off' | 'markdown' | 'html') =>
+        createMarkdownGenerator('study', 'NET', undefined, undefined, undefined, undefined, undefined, mode).generateChapterMarkdown(chapter, footnotes);
+
+      expect(render()).toContain('**Greek** word <span lang="grc">ἄνωθεν</span> (*anōthen*)');
+      expect(render()).toContain('(v. [[John 3#4|4]])');
+      expect(render('markdown')).toContain('word *ἄνωθεν* (*anōthen*)');
+      expect(render('off')).toContain('Compare רוּחַ.');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for inline formatting: supplied words, the divine name and red letters
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ParsedVerse } from '../../types/index.js';
+import { createParser } from '../../services/parser.js';
+import { createMarkdownGenerator } from '../../services/markdown.js';
+import { createUsfmParser } from '../../services/usfm.js';
+import { createUsxParser } from '../../services/usx.js';
+import { createOsisParser } from '../../services/osis.js';
+import { chapterVerses, sectionVerses } from '../../utils/chapters.js';
+import { normalizeSegments } from '../../utils/formatting.js';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '../fixtures', name), 'utf8');
+
+const chapterHtml = `
+<div class="chunk" id="netText_Matthew_4">
+  <p class="bodytext">
+    <span id="netText_Matthew_4_7" class="netVerse ">
+      <span class="vref"><span class="verseNumber">7</span></span>
+      Jesus said to him, <span class="red">"Once again it is written: 'You are not to put the <span class="smallcaps">Lord</span> your God to the test.'"</span>
+      <sup><a href="#" class="netNoteSuper">12</a></sup>
+    </span>
+    <span id="netText_Matthew_4_8" class="netVerse ">
+      <span class="vref"><span class="verseNumber">8</span></span>
+      Again, the devil took him <i>up</i> to a very high mountain.
+    </span>
+    <span id="netText_Matthew_4_9" class="netVerse ">
+      <span class="vref"><span class="verseNumber">9</span></span>
+      And he said to him, "I will give you all these things."
+    </span>
+  </p>
+</div>`;
+
+describe('Inline Formatting', () => {
+  describe('normalizeSegments', () => {
+    it('should clean whitespace across segments and merge equal formats', () => {
+      expect(normalizeSegments([
+        { text: '  For God ', formats: ['wordsOfJesus'] },
+        { text: ' so\n loved', formats: ['wordsOfJesus'] },
+        { text: ' the ', formats: [] },
+        { text: 'Lord ', formats: ['divineName'] },
+        { text: '  ', formats: [] }
+      ])).toEqual([
+        { text: 'For God so loved', formats: ['wordsOfJesus'] },
+        { text: ' the ', formats: [] },
+        { text: 'Lord', formats: ['divineName'] }
+      ]);
+    });
+  });
+
+  describe('BibleParser', () => {
+    const [chapter] = createParser().parseChapters(chapterHtml);
+    const [verse7, verse8, verse9] = sectionVerses(chapter.sections[0]);
+
+    it('should keep nested formats in segments that add up to the text', () => {
+      expect(verse7.text).toBe('Jesus said to him, "Once again it is written: \'You are not to put the Lord your God to the test.\'"');
+      expect(verse7.segments).toEqual([
+        { text: 'Jesus said to him, ', formats: [] },
+        { text: '"Once again it is written: \'You are not to put the ', formats: ['wordsOfJesus'] },
+        { text: 'Lord', formats: ['wordsOfJesus', 'divineName'] },
+        { text: ' your God to the test.\'"', formats: ['wordsOfJesus'] }
+      ]);
+      expect(verse7.footnoteNumbers).toEqual([12]);
+    });
+
+    it('should read italics as supplied words', () => {
+      expect(verse8.segments!.find(segment => segment.formats.length > 0)).toEqual({ text: 'up', formats: ['added'] });
+    });
+
+    it('should leave segments out of unformatted verses', () => {
+      expect(verse9.segments).toBeUndefined();
+    });
+  });
+
+  describe('MarkdownGenerator', () => {
+    const verse: ParsedVerse = {
+      number: 7,
+      text: 'Jesus said, "Do not test the Lord your God," and went up.',
+      id: 'v7',
+      footnoteNumbers: [1],
+      segments: [
+        { text: 'Jesus said, ', formats: [] },
+        { text: '"Do not test the ', formats: ['wordsOfJesus'] },
+        { text: 'Lord', formats: ['wordsOfJesus', 'divineName'] },
+        { text: ' your God," ', formats: ['wordsOfJesus'] },
+        { text: 'and went ', formats: [] },
+        { text: 'up', formats: ['added'] },
+        { text: '.', formats: [] }
+      ]
+    };
+    const chapter = { book: 'Matthew', chapter: 4, sections: [{ paragraphs: [{ verses: [verse] }] }] };
+
+    it('should use emphasis, capitals and red-letter spans in the study style', () => {
+      const markdown = createMarkdownGenerator('study', 'NET').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('### 7\nJesus said, <span class="words-of-jesus">"Do not test the LORD your God,"</span> and went *up*.[^1] ^7');
+    });
+
+    it('should only keep the divine name in the simple style by default', () => {
+      const markdown = createMarkdownGenerator('simple', 'NET').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('**7** Jesus said, "Do not test the LORD your God," and went up.[^1]');
+    });
+
+    it('should follow per-style settings and custom classes', () => {
+      const markdown = createMarkdownGenerator('simple', 'NET', undefined, {
+        simple: { added: 'html', divineName: 'off', wordsOfJesus: 'off' },
+        classes: { added: 'supplied' }
+      }).generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('the Lord your God," and went <span class="supplied">up</span>.');
+    });
+  });
+
+  describe('local sources', () => {
+    const formattedWords = (verses: ParsedVerse[]) => verses.flatMap(verse =>
+      (verse.segments ?? []).filter(segment => segment.formats.length > 0).map(segment => [segment.text, segment.formats]));
+
+    it('should read \\wj and \\add from USFM', () => {
+      const chapter3 = createUsfmParser().parseBook(fixture('sample-john.usfm'))!.chapters[1];
+
+      expect(formattedWords(chapterVerses(chapter3.sections))).toEqual([
+        ['For God so loved the world, that he gave his one and only Son, that whoever believes in him should not perish, but have eternal life.', ['wordsOfJesus']],
+        ['For God didn’t send his Son into the world to judge the world, but that the world should be saved through him.', ['wordsOfJesus']],
+        ['He', ['added']]
+      ]);
+    });
+
+    it('should read wj and add char styles from USX', () => {
+      const chapter3 = createUsxParser().parseBook(fixture('sample-john.usx'))!.chapters[1];
+
+      expect(formattedWords(chapterVerses(chapter3.sections)).map(([, formats]) => formats))
+        .toEqual([['wordsOfJesus'], ['wordsOfJesus'], ['added']]);
+    });
+
+    it('should read q who="Jesus" and transChange from OSIS', () => {
+      const chapter3 = createOsisParser().parseBooks(fixture('sample-john.osis.xml'))[0].chapters[1];
+
+      expect(formattedWords(chapterVerses(chapter3.sections)).map(([, formats]) => formats))
+        .toEqual([['wordsOfJesus'], ['wordsOfJesus'], ['added']]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the cross-reference graph export
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CrossReference } from '../../types/index.js';
+import { createGraphExporter } from '../../services/graph.js';
+import { ManifestStore } from '../../services/manifest.js';
+
+const references: CrossReference[] = [
+  { fromBook: 'Genesis', fromChapter: 22, verse: 2, book: 'John', chapter: 3, toVerse: 16, type: 'sn', note: 'note_4' },
+  { fromBook: 'Romans', fromChapter: 5, verse: 8, book: 'John', chapter: 3, toVerse: 16, type: 'tn sn', note: 'note_12' },
+  { fromBook: 'Romans', fromChapter: 5, verse: 8, book: 'John', chapter: 1, type: 'sn', note: 'note_12' }
+];
+
+describe('Cross-Reference Graph', () => {
+  const exporter = createGraphExporter();
+
+  it('should collect the references of every chapter in canonical order', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bible2md-graph-'));
+    try {
+      const store = new ManifestStore(outputDir, 'abc');
+      await store.record('Romans', 5, '# Romans 5', 21, false, { references: references.slice(1).map(({ fromBook, fromChapter, ...reference }) => reference) });
+      await store.record('Genesis', 22, '# Genesis 22', 24, false, { references: references.slice(0, 1).map(({ fromBook, fromChapter, ...reference }) => reference) });
+
+      expect(store.crossReferences()).toEqual(references);
+    } finally {
+      await fs.remove(outputDir);
+    }
+  });
+
+  it('should make a node per verse, or per chapter when no verse is given', () => {
+    const graph = exporter.buildGraph(references, 'verse');
+
+    expect(graph.nodes.map(node => node.id)).toEqual(['Genesis 22:2', 'John 1', 'John 3:16', 'Romans 5:8']);
+    expect(graph.edges[1]).toEqual({
+      source: 'Romans 5:8', target: 'John 3:16', type: 'tn sn', note: 'Romans 5#note_12', from: 'Romans 5:8', to: 'John 3:16'
+    });
+  });
+
+  it('should keep every reference as an edge at coarser levels', () => {
+    const chapters = exporter.buildGraph(references, 'chapter');
+    const books = exporter.buildGraph(references, 'book');
+
+    expect(chapters.nodes).toEqual([
+      { id: 'Genesis 22', book: 'Genesis', chapter: 22 },
+      { id: 'John 1', book: 'John', chapter: 1 },
+      { id: 'John 3', book: 'John', chapter: 3 },
+      { id: 'Romans 5', book: 'Romans', chapter: 5 }
+    ]);
+    expect(books.nodes.map(node => node.id)).toEqual(['Genesis', 'John', 'Romans']);
+    expect(books.edges.map(edge => [edge.source, edge.target, edge.to])).toEqual([
+      ['Genesis', 'John', 'John 3:16'],
+      ['Romans', 'John', 'John 3:16'],
+      ['Romans', 'John', 'John 1']
+    ]);
+  });
+
+  it('should write Graphviz DOT', () => {
+    const dot = exporter.format(exporter.buildGraph(references.slice(0, 1), 'verse'), 'dot');
+
+    expect(dot).toBe(
+      'digraph "Cross-references by verse" {\n' +
+      '  "Genesis 22:2" [book="Genesis", chapter=22, verse=2];\n' +
+      '  "John 3:16" [book="John", chapter=3, verse=16];\n' +
+      '  "Genesis 22:2" -> "John 3:16" [type="sn", note="Genesis 22#note_4", from="Genesis 22:2", to="John 3:16"];\n' +
+      '}\n'
+    );
+  });
+
+  it('should write GraphML with the note type and id on each edge', () => {
+    const graphml = exporter.format(exporter.buildGraph(references, 'book'), 'graphml');
+
+    expect(graphml).toContain('<key id="type" for="edge" attr.name="type" attr.type="string"/>');
+    expect(graphml).toContain('<graph id="book" edgedefault="directed">');
+    expect(graphml).toContain('<node id="Romans"><data key="book">Romans</data></node>');
+    expect(graphml).toContain(
+      '<edge id="e1" source="Romans" target="John"><data key="type">tn sn</data><data key="note">Romans 5#note_12</data>' +
+      '<data key="from">Romans 5:8</data><data key="to">John 3:16</data></edge>'
+    );
+  });
+
+  it('should tell apart notes of different chapters that share an id', () => {
+    const graph = exporter.buildGraph([
+      { fromBook: 'Romans', fromChapter: 5, verse: 8, book: 'John', chapter: 3, toVerse: 16, type: 'sn', note: 'note_1' },
+      { fromBook: 'Romans', fromChapter: 6, verse: 4, book: 'John', chapter: 3, toVerse: 16, type: 'sn', note: 'note_1' }
+    ], 'book');
+
+    expect(graph.edges.map(edge => edge.note)).toEqual(['Romans 5#note_1', 'Romans 6#note_1']);
+  });
+
+  it('should write plain JSON', () => {
+    const graph = exporter.buildGraph(references, 'chapter');
+
+    expect(JSON.parse(exporter.format(graph, 'json'))).toEqual(graph);
+  });
+});
\ No newline at end of file
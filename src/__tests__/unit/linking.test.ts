@@ -76,6 +76,22 @@ describe('Footnote Linking', () => {
       expect(processed).toContain('[[Luke 6#20|Lu 6:20]]');
     });
 
+    it('should link references in the note text to the current chapter', () => {
+      const content = 'The same phrase occurs in 1:4 and vv. 12, 15; compare Gen 1:1–2:3.';
+
+      const processed = (markdownGenerator as any).processFootnoteContent(content, undefined, 'John', 3);
+
+      expect(processed).toBe('The same phrase occurs in [[John 1#4|1:4]] and [[John 3#12|vv. 12]], [[John 3#15|15]]; compare [[Genesis 1#1|Gen 1:1–2:3]].');
+    });
+
+    it('should not link references inside data-ref links again', () => {
+      const content = 'See <data ref="Bible:Jn 1:24">John 1:24</data> and John 1:26.';
+
+      const processed = (markdownGenerator as any).processFootnoteContent(content, undefined, 'John', 1);
+
+      expect(processed).toBe('See [[John 1#24|John 1:24]] and [[John 1#26|John 1:26]].');
+    });
+
     it('should remove other HTML tags', () => {
       const content = 'Greek <i>pneuma</i> means <span class="greek">πνεῦμα</span>.';
 
@@ -88,21 +104,22 @@ describe('Footnote Linking', () => {
   });
 
   describe('getFootnoteVerseLink', () => {
-    it('should generate back-to-verse links correctly', () => {
+    it('should link back to the verse the note belongs to', () => {
       const footnote: ParsedFootnote = {
         id: 'note_3',
         number: 3,
         type: 'sn',
         content: 'Test footnote',
-        verseReferences: []
+        verseReferences: [],
+        verse: 16
       };
 
       const verseLink = (markdownGenerator as any).getFootnoteVerseLink(footnote, 'John', 3);
 
-      expect(verseLink).toBe('[[John 3#3|↑]]');
+      expect(verseLink).toBe('[[John 3#16|↑]]');
     });
 
-    it('should handle complex footnote IDs', () => {
+    it('should leave out the link when no verse marks the note', () => {
       const footnote: ParsedFootnote = {
         id: 'note_John_3_16',
         number: 16,
@@ -113,7 +130,7 @@ describe('Footnote Linking', () => {
 
       const verseLink = (markdownGenerator as any).getFootnoteVerseLink(footnote, 'John', 3);
 
-      expect(verseLink).toBe('[[John 3#16|↑]]');
+      expect(verseLink).toBe('');
     });
   });
 
@@ -152,7 +169,8 @@ describe('Footnote Linking', () => {
         number: 1,
         type: 'sn',
         content: 'This is a study note about the text.',
-        verseReferences: []
+        verseReferences: [],
+        verse: 1
       };
 
       const markdown = markdownGenerator.generateChapterMarkdown(
@@ -160,13 +178,13 @@ describe('Footnote Linking', () => {
           book: 'John',
           chapter: 3,
           sections: [{
-            verses: [{ number: 1, text: 'Sample verse text', id: 'v1' }]
+            paragraphs: [{ verses: [{ number: 1, text: 'Sample verse text', id: 'v1' }] }]
           }]
         },
         [footnote]
       );
 
-      expect(markdown).toContain('[^1]: **SN** This is a study note about the text. [[John 3#1|↑]]');
+      expect(markdown).toContain('[^1]: **Study note** This is a study note about the text. [[John 3#1|↑]]');
     });
 
     it('should include cross-references in footnotes', () => {
@@ -178,7 +196,8 @@ describe('Footnote Linking', () => {
         verseReferences: [
           { book: 'Matthew', chapter: 5, verse: 3, display: 'Matt 5:3' },
           { book: 'Luke', chapter: 6, verse: 20, display: 'Luke 6:20' }
-        ]
+        ],
+        verse: 1
       };
 
       const markdown = markdownGenerator.generateChapterMarkdown(
@@ -186,7 +205,7 @@ describe('Footnote Linking', () => {
           book: 'John',
           chapter: 3,
           sections: [{
-            verses: [{ number: 1, text: 'Sample verse text', id: 'v1' }]
+            paragraphs: [{ verses: [{ number: 1, text: 'Sample verse text', id: 'v1' }] }]
           }]
         },
         [footnote]
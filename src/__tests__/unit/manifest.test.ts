@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the checkpoint manifest used by resumable conversions
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ManifestStore } from '../../services/manifest.js';
+import { MANIFEST_FILE_NAME } from '../../utils/constants.js';
+
+describe('Conversion Manifest', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bible2md-manifest-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(outputDir);
+  });
+
+  describe('ManifestStore', () => {
+    const chapterFile = () => path.join(outputDir, 'John 3.md');
+
+    it('should treat a recorded chapter as complete until its file changes', async () => {
+      const store = new ManifestStore(outputDir, 'abc');
+      await fs.writeFile(chapterFile(), '# John 3');
+      await store.record('John', 3, '# John 3', 36);
+
+      expect(await store.isComplete('John', 3, chapterFile())).toBe(true);
+      expect(await store.isComplete('John', 4, chapterFile())).toBe(false);
+
+      await fs.writeFile(chapterFile(), '# John 3 (edited)');
+      expect(await store.isComplete('John', 3, chapterFile())).toBe(false);
+    });
+
+    it('should never treat a partial chapter as complete', async () => {
+      const store = new ManifestStore(outputDir, 'abc');
+      await fs.writeFile(chapterFile(), '# John 3');
+      await store.record('John', 3, '# John 3', 36, true);
+
+      expect(await store.isComplete('John', 3, chapterFile())).toBe(false);
+      expect(store.chaptersForBook('John')).toEqual([{ chapter: 3, verses: 36 }]);
+    });
+
+    it('should only reload a manifest written with the same fingerprint', async () => {
+      const store = new ManifestStore(outputDir, 'abc');
+      await store.record('John', 3, '# John 3', 36);
+
+      expect(await new ManifestStore(outputDir, 'abc').load()).toBe(true);
+      expect(await new ManifestStore(outputDir, 'xyz').load()).toBe(false);
+    });
+
+    it('should persist every chapter recorded concurrently', async () => {
+      const store = new ManifestStore(outputDir, 'abc');
+      await Promise.all(Array.from({ length: 10 }, (_, i) => store.record('Genesis', i + 1, `# Genesis ${i + 1}`, 20)));
+
+      const saved = await fs.readJson(path.join(outputDir, MANIFEST_FILE_NAME));
+      expect(Object.keys(saved.chapters)).toHaveLength(10);
+    });
+
+    it('should list completed books in canonical order and drop missing files', async () => {
+      const store = new ManifestStore(outputDir, 'abc');
+      await store.record('John', 3, '# John 3', 36);
+      await store.record('Genesis', 1, '# Genesis 1', 31);
+
+      expect(store.completedBooks().map(book => book.name)).toEqual(['Genesis', 'John']);
+
+      await fs.writeFile(chapterFile(), '# John 3');
+      await store.pruneMissing((book, chapter) => path.join(outputDir, `${book} ${chapter}.md`));
+
+      expect(store.completedBooks()).toEqual([{ name: 'John', chapters: [3] }]);
+    });
+
+    it('should reload recorded chapters in order', async () => {
+      const store = new ManifestStore(outputDir, 'abc');
+      await store.record('John', 3, '# John 3', 36);
+      await store.record('John', 1, '# John 1', 51, false, { title: 'The Word' });
+
+      const reloaded = new ManifestStore(outputDir, 'abc');
+      expect(await reloaded.load()).toBe(true);
+      expect(reloaded.chaptersForBook('John')).toEqual([{ chapter: 1, verses: 51, title: 'The Word' }, { chapter: 3, verses: 36 }]);
+    });
+
+    it('should keep saving after a failed write', async () => {
+      const versionDir = path.join(outputDir, 'NET');
+      await fs.writeFile(versionDir, 'not a directory');
+      const store = new ManifestStore(versionDir, 'abc');
+
+      await expect(store.record('John', 3, '# John 3', 36)).rejects.toThrow();
+
+      await fs.remove(versionDir);
+      await store.record('John', 1, '# John 1', 51);
+      expect(Object.keys((await fs.readJson(path.join(versionDir, MANIFEST_FILE_NAME))).chapters)).toEqual(['John 3', 'John 1']);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for footnote type filtering and note layouts
+ */
+
+import { ParsedChapter, ParsedFootnote } from '../../types/index.js';
+import { createFootnotesParser } from '../../services/footnotes.js';
+import { createMarkdownGenerator } from '../../services/markdown.js';
+import { attachFootnotes } from '../../utils/chapters.js';
+
+const chapter: ParsedChapter = {
+  book: 'John',
+  chapter: 3,
+  sections: [{
+    paragraphs: [{
+      verses: [
+        { number: 1, text: 'Now a certain man, a Pharisee named Nicodemus,', id: 'v1', footnoteNumbers: [1, 2] },
+        { number: 2, text: 'came to Jesus at night', id: 'v2', footnoteNumbers: [3] }
+      ]
+    }]
+  }]
+};
+
+const footnotes = attachFootnotes(chapter.sections, [
+  { id: 'note_1', number: 1, type: 'sn', content: 'See the note on Pharisees in 1:24.', verseReferences: [] },
+  { id: 'note_2', number: 2, type: 'tc', content: 'Some manuscripts add a word.', verseReferences: [] },
+  { id: 'note_3', number: 3, type: 'tn sn', content: 'Or "during the night."', verseReferences: [] }
+]);
+
+describe('Notes', () => {
+  it('should keep combined note types apart when parsing', () => {
+    const [note] = createFootnotesParser().parseFootnotes(`
+      <div class="note">
+        <sup><span class="noteNoteSuper" id="note_4">4</span></sup>
+        <span class="notetype">tn</span> Or "during the night."
+        <span class="notetype">sn</span> Possibly Nicodemus came at night.
+      </div>`);
+
+    expect(note.type).toBe('tn sn');
+  });
+
+  it('should attach each note to the verse that marks it', () => {
+    expect(footnotes.map(note => note.verse)).toEqual([1, 1, 2]);
+
+    const loose = attachFootnotes(chapter.sections, [{ id: 'note_9', number: 9, type: 'sn', content: 'Unmarked.', verseReferences: [] }]);
+    expect(loose[0].verse).toBeUndefined();
+  });
+
+  it('should link each footnote back to its verse, not its number', () => {
+    const markdown = createMarkdownGenerator('study', 'NET').generateChapterMarkdown(chapter, footnotes);
+
+    expect(markdown).toContain('[^2]: **Text-critical note** Some manuscripts add a word. [[John 3#1|↑]]');
+    expect(markdown).toContain(`[^3]: **Translator's note / Study note** Or "during the night." [[John 3#2|↑]]`);
+  });
+
+  it('should render every note as a footnote by default', () => {
+    const markdown = createMarkdownGenerator('study', 'NET').generateChapterMarkdown(chapter, footnotes);
+
+    expect(markdown).toContain('Nicodemus,[^1][^2] ^1');
+    expect(markdown).toContain('[^2]: **Text-critical note** Some manuscripts add a word.');
+    expect(markdown).toContain(`[^3]: **Translator's note / Study note** Or "during the night."`);
+  });
+
+  it('should leave out note types that were not asked for, with their markers', () => {
+    const markdown = createMarkdownGenerator('study', 'NET', undefined, undefined, undefined, ['sn']).generateChapterMarkdown(chapter, footnotes);
+
+    expect(markdown).toContain('Nicodemus,[^1] ^1');
+    expect(markdown).toContain('at night[^3] ^2');
+    expect(markdown).not.toContain('[^2]');
+    expect(markdown).not.toContain('Some manuscripts');
+  });
+
+  it('should place callouts after the verse they belong to', () => {
+    const markdown = createMarkdownGenerator('study', 'NET', undefined, undefined, undefined, ['sn', 'tn'], 'callouts')
+      .generateChapterMarkdown(chapter, footnotes);
+
+    expect(markdown).toContain([
+      'Nicodemus, ^1',
+      '',
+      '> [!info] Study note',
+      '> See the note on Pharisees in [[John 1#24|1:24]].',
+      '',
+      '### 2',
+      'came to Jesus at night ^2',
+      '',
+      "> [!note] Translator's note / Study note",
+      '> Or "during the night."'
+    ].join('\n'));
+    expect(markdown).not.toContain('[^');
+    expect(markdown).not.toContain('## Notes');
+  });
+
+  it('should place callouts after the paragraph in reading style', () => {
+    const markdown = createMarkdownGenerator('reading', 'NET', undefined, undefined, undefined, undefined, 'callouts')
+      .generateChapterMarkdown(chapter, footnotes);
+
+    expect(markdown).toContain('came to Jesus at night ^1-2\n\n> [!info] Study note');
+    expect(markdown).toContain('> [!abstract] Text-critical note\n> Some manuscripts add a word.');
+  });
+
+  it('should gather notes no verse points to at the end', () => {
+    const loose: ParsedFootnote = { id: 'note_9', number: 9, type: 'map', content: 'Map of Jerusalem.', verseReferences: [] };
+    const markdown = createMarkdownGenerator('study', 'NET', undefined, undefined, undefined, undefined, 'callouts')
+      .generateChapterMarkdown(chapter, [...footnotes, loose]);
+
+    expect(markdown).toContain('## Notes\n\n> [!example] Map note\n> Map of Jerusalem.');
+  });
+
+  it('should fold every note into one collapsed section', () => {
+    const markdown = createMarkdownGenerator('study', 'NET', undefined, undefined, undefined, ['tn'], 'collapsed')
+      .generateChapterMarkdown(chapter, footnotes);
+
+    expect(markdown).toContain([
+      '> [!note]- Notes (1)',
+      `> [[John 3#2|2]] **Translator's note / Study note** Or "during the night."`
+    ].join('\n'));
+    expect(markdown).not.toContain('[^');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for paragraph grouping and the reading style
+ */
+
+import { ParsedChapter, ParsedVerse } from '../../types/index.js';
+import { createParser } from '../../services/parser.js';
+import { createMarkdownGenerator } from '../../services/markdown.js';
+import { createUsfmParser } from '../../services/usfm.js';
+
+const verseSpan = (chapter: number, number: number, text: string) =>
+  `<span id="netText_Mark_${chapter}_${number}" class="netVerse "><span class="vref"><span class="verseNumber">${number}</span></span>${text}</span>`;
+
+const chapterHtml = `
+<div class="chunk" id="netText_Mark_1">
+  <div class="paragraphtitle"><h3>The Ministry of John the Baptist</h3></div>
+  <p class="bodytext">${verseSpan(1, 1, 'The beginning of the gospel of Jesus Christ.')}</p>
+  <p class="bodytext">${verseSpan(1, 2, 'As it is written in Isaiah the prophet,')}</p>
+  <p class="poetry">${verseSpan(1, 3, 'the voice of one shouting in the wilderness,<br /><span class="indent">&nbsp;</span>Prepare the way for the Lord.<br />')}</p>
+  <p class="bodytext">${verseSpan(1, 4, 'In the wilderness John the baptizer began preaching.')}${verseSpan(1, 5, 'People from the whole Judean countryside were going out to him.')}</p>
+</div>`;
+
+const psalmUsfm = `\\id PSA
+\\c 1
+\\s1 The Two Ways
+\\q1 \\v 1 How blessed is the one
+\\q2 who does not follow the advice of the wicked.
+\\q1 \\v 2 Instead he finds pleasure in obeying the law.
+\\b
+\\q1 \\v 3 He is like a tree planted by flowing streams.
+\\p \\v 4 Not so with the wicked!
+\\v 5 For this reason the wicked cannot withstand judgment.`;
+
+const verse = (number: number, text: string, extra: Partial<ParsedVerse> = {}): ParsedVerse =>
+  ({ number, text, id: `v${number}`, footnoteNumbers: [], ...extra });
+
+// The line Obsidian opens for a [[Note#heading]] or [[Note#^block]] link
+const resolveLink = (link: string, notes: { [name: string]: string }): string | undefined => {
+  const [, name, target] = link.match(/^\[\[([^#|\]]+)#([^|\]]+)/)!;
+  return notes[name]?.split('\n').find(line => target.startsWith('^') ? line.endsWith(` ${target}`) : line === `### ${target}`);
+};
+
+describe('Paragraphs', () => {
+  describe('BibleParser', () => {
+    it('should keep each source paragraph as a paragraph', () => {
+      const [chapter] = createParser().parseChapters(chapterHtml);
+
+      expect(chapter.sections).toHaveLength(1);
+      expect(chapter.sections[0].paragraphs.map(paragraph => paragraph.verses.map(v => v.number)))
+        .toEqual([[1], [2], [3], [4, 5]]);
+    });
+  });
+
+  describe('ParsedBookBuilder', () => {
+    it('should start paragraphs at prose markers and stanza breaks', () => {
+      const [chapter] = createUsfmParser().parseBook(psalmUsfm)!.chapters;
+
+      expect(chapter.sections[0].paragraphs.map(paragraph => paragraph.verses.map(v => v.number)))
+        .toEqual([[1, 2], [3], [4, 5]]);
+    });
+
+    it('should not turn a prose verse into poetry when a heading and \\q1 follow it', () => {
+      const usfm = '\\id JHN\n\\c 3\n\\p\n\\v 17 For God did not send his Son.\n\\s1 The Testimony of John\n\\q1\n\\v 30 He must increase,';
+      const [chapter] = createUsfmParser().parseBook(usfm)!.chapters;
+
+      expect(chapter.sections[0].paragraphs[0].verses[0].lines).toBeUndefined();
+      expect(chapter.sections[1].paragraphs[0].verses[0].lines).toEqual([{ text: 'He must increase,', indent: 0 }]);
+    });
+  });
+
+  describe('reading style', () => {
+    const chapter: ParsedChapter = {
+      book: 'Mark',
+      chapter: 1,
+      sections: [{
+        title: 'The Ministry of John the Baptist',
+        paragraphs: [
+          { verses: [verse(1, 'The beginning of the gospel.', { footnoteNumbers: [1] }), verse(2, 'As it is written,')] },
+          { verses: [verse(3, 'the voice of one shouting, Prepare the way.', {
+            lines: [{ text: 'the voice of one shouting,', indent: 0 }, { text: 'Prepare the way.', indent: 1 }]
+          }), verse(4, 'John began preaching.')] }
+        ]
+      }]
+    };
+    const footnotes = [{ id: 'note_1', number: 1, type: 'tn', content: 'Or "good news."', verseReferences: [] }];
+    const markdown = createMarkdownGenerator('reading', 'NET').generateChapterMarkdown(chapter, footnotes);
+
+    it('should run verses together with superscript numbers and a block ID per paragraph', () => {
+      expect(markdown).toContain('## The Ministry of John the Baptist\n\n<sup id="1">1</sup> The beginning of the gospel.[^1] <sup id="2">2</sup> As it is written, ^1-2\n\n');
+    });
+
+    it('should put poetry verses on their own lines', () => {
+      expect(markdown).toContain('<sup id="3">3</sup> the voice of one shouting,  \n&emsp;&emsp;Prepare the way.  \n<sup id="4">4</sup> John began preaching. ^3-4\n\n');
+    });
+
+    it('should link verses to the paragraph blocks the chapter defines', () => {
+      const notes = [{ id: 'note_2', number: 2, type: 'sn', content: 'Compare v. 2 and John 3:16.', verse: 4, verseReferences: [] }];
+      const withNotes = createMarkdownGenerator('reading', 'NET').generateChapterMarkdown(chapter, notes);
+      const links = withNotes.match(/\[\[[^\]]+\]\]/g)!.filter(link => link.includes('#'));
+
+      expect(links).toEqual(['[[Mark 1#^1-2|v. 2]]', '[[Mark 1#^3-4|↑]]']);
+      links.forEach(link => {
+        expect(resolveLink(link, { 'Mark 1': withNotes })).toBeDefined();
+      });
+      // Other chapters' paragraphs aren't known yet, so the chapter itself is linked
+      expect(withNotes).toContain('[[John 3|John 3:16]]');
+    });
+
+    it('should keep frontmatter and footnotes', () => {
+      expect(markdown).toMatch(/^---\nbook: Mark\nchapter: 1\nverses: 4\n/);
+      expect(markdown).toContain('[^1]:');
+      expect(markdown).not.toContain('### 1');
+    });
+  });
+});
\ No newline at end of file
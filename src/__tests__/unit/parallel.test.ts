@@ -0,0 +1,105 @@
+/**
+ * Unit tests for parallel NET/NASB chapter output
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ParsedChapter, ParsedVerse } from '../../types/index.js';
+import { createMarkdownGenerator } from '../../services/markdown.js';
+import { BibleApiService } from '../../services/api.js';
+import { createVersionRegistry } from '../../services/versions.js';
+import { NetBibleSource } from '../../sources/netbible.js';
+
+const verse = (number: number, text: string, footnoteNumbers: number[] = []): ParsedVerse =>
+  ({ number, text, id: `v${number}`, footnoteNumbers });
+
+const chapter: ParsedChapter = {
+  book: 'John',
+  chapter: 3,
+  sections: [{ title: 'The Son Sent', paragraphs: [{ verses: [verse(16, 'For this is the way God loved the world', [1]), verse(17, 'For God did not send')] }] }],
+  parallel: {
+    version: 'NASB',
+    sections: [{ paragraphs: [{ verses: [verse(16, 'For God so loved the world', [4]), verse(17, 'For God did not send | his Son')] }] }]
+  }
+};
+
+describe('Parallel Output', () => {
+  describe('table layout', () => {
+    const markdown = createMarkdownGenerator('study', 'NET', 'table').generateChapterMarkdown(chapter);
+
+    it('should list both versions in the frontmatter', () => {
+      expect(markdown).toContain('version: NET\nversions: [NET, NASB]\n---');
+    });
+
+    it('should align verses in one row per number', () => {
+      expect(markdown).toContain('## The Son Sent\n\n| Verse | NET | NASB |\n|---:|---|---|\n');
+      expect(markdown).toContain('| 16 | <a id="net-16"></a>For this is the way God loved the world[^1] | <a id="nasb-16"></a>For God so loved the world |');
+    });
+
+    it('should escape pipes and leave companion footnote markers out', () => {
+      expect(markdown).toContain('For God did not send \\| his Son |');
+      expect(markdown).not.toContain('[^4]');
+    });
+  });
+
+  describe('alternating layout', () => {
+    it('should give each side its own anchor under the verse heading', () => {
+      const markdown = createMarkdownGenerator('study', 'NET', 'alternating').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('### 16\n**NET** For this is the way God loved the world[^1] ^net-16\n\n**NASB** For God so loved the world ^nasb-16\n\n### 17');
+    });
+
+    it('should label lines without anchors in the simple style', () => {
+      const markdown = createMarkdownGenerator('simple', 'NET', 'alternating').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('**16 NET** For this is the way God loved the world[^1]\n\n**16 NASB** For God so loved the world');
+      expect(markdown).not.toContain('^net-16');
+    });
+
+    it('should keep section headings in the reading style', () => {
+      const markdown = createMarkdownGenerator('reading', 'NET', 'alternating').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('## The Son Sent\n\n**16 NET** For this is the way God loved the world[^1]');
+    });
+
+    it('should keep verses only the companion has', () => {
+      const extra = { ...chapter, parallel: { version: 'NASB', sections: [{ paragraphs: [{ verses: [verse(18, 'He who believes')] }] }] } };
+      const markdown = createMarkdownGenerator('study', 'NET', 'alternating').generateChapterMarkdown(extra);
+
+      expect(markdown).toContain('### 18\n**NASB** He who believes ^nasb-18');
+    });
+  });
+
+  it('should ignore the companion text when parallel output is off', () => {
+    const markdown = createMarkdownGenerator('study', 'NET').generateChapterMarkdown(chapter);
+
+    expect(markdown).not.toContain('NASB');
+    expect(markdown).toContain('### 16\nFor this is the way God loved the world[^1] ^16');
+  });
+
+  describe('NetBibleSource', () => {
+    const registry = createVersionRegistry();
+    const html = fs.readFileSync(path.join(__dirname, '../fixtures/sample-chapter.html'), 'utf8');
+
+    it('should attach the companion text to each chapter', async () => {
+      const api = new BibleApiService();
+      jest.spyOn(api, 'fetchBookChapters').mockResolvedValue([{ bible1: html, bible2: html }]);
+      const source = new NetBibleSource(registry.get('NET')!, api, registry.get('NASB')!, true);
+
+      const [parsed] = await source.fetchChapters('John', [3]);
+
+      expect(parsed.parallel!.version).toBe('NASB');
+      expect(parsed.parallel!.sections).toEqual(parsed.sections);
+    });
+
+    it('should not parse the companion text by default', async () => {
+      const api = new BibleApiService();
+      jest.spyOn(api, 'fetchBookChapters').mockResolvedValue([{ bible1: html, bible2: html }]);
+      const source = new NetBibleSource(registry.get('NET')!, api, registry.get('NASB')!);
+
+      const [parsed] = await source.fetchChapters('John', [3]);
+
+      expect(parsed.parallel).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
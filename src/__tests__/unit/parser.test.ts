@@ -3,12 +3,13 @@
  */
 
 import { createParser } from '../../services/parser.js';
+import { sectionVerses } from '../../utils/chapters.js';
 
 describe('Bible Parser', () => {
   let parser: ReturnType<typeof createParser>;
 
   beforeEach(() => {
-    parser = createParser('NET');
+    parser = createParser();
   });
 
   describe('parseChapters', () => {
@@ -54,7 +55,7 @@ describe('Bible Parser', () => {
       `;
 
       const chapters = parser.parseChapters(html);
-      const verses = chapters[0].sections[0].verses;
+      const verses = sectionVerses(chapters[0].sections[0]);
 
       expect(verses).toHaveLength(3);
       expect(verses[0].number).toBe(1);
@@ -91,8 +92,8 @@ describe('Bible Parser', () => {
       expect(sections).toHaveLength(2);
       expect(sections[0].title).toBe('First Section');
       expect(sections[1].title).toBe('Second Section');
-      expect(sections[0].verses).toHaveLength(1);
-      expect(sections[1].verses).toHaveLength(1);
+      expect(sectionVerses(sections[0])).toHaveLength(1);
+      expect(sectionVerses(sections[1])).toHaveLength(1);
     });
 
     it('should extract verse numbers from IDs when explicit numbers are missing', () => {
@@ -110,7 +111,7 @@ describe('Bible Parser', () => {
       `;
 
       const chapters = parser.parseChapters(html);
-      const verses = chapters[0].sections[0].verses;
+      const verses = sectionVerses(chapters[0].sections[0]);
 
       expect(verses).toHaveLength(2);
       expect(verses[0].number).toBe(5);
@@ -133,7 +134,7 @@ describe('Bible Parser', () => {
       `;
 
       const chapters = parser.parseChapters(html);
-      const verse = chapters[0].sections[0].verses[0];
+      const verse = sectionVerses(chapters[0].sections[0])[0];
 
       expect(verse.text).toBe('Clean text here. strong');
       expect(verse.text).not.toContain('<span');
@@ -142,28 +143,6 @@ describe('Bible Parser', () => {
     });
   });
 
-  describe('getVersionHtml', () => {
-    it('should return NET version for NET parser', () => {
-      const netParser = createParser('NET');
-      const netHtml = '<div>NET content</div>';
-      const nasbHtml = '<div>NASB content</div>';
-
-      const result = netParser.getVersionHtml(netHtml, nasbHtml);
-
-      expect(result).toBe(netHtml);
-    });
-
-    it('should return NASB version for NASB parser', () => {
-      const nasbParser = createParser('NASB');
-      const netHtml = '<div>NET content</div>';
-      const nasbHtml = '<div>NASB content</div>';
-
-      const result = nasbParser.getVersionHtml(netHtml, nasbHtml);
-
-      expect(result).toBe(nasbHtml);
-    });
-  });
-
   describe('edge cases', () => {
     it('should handle empty HTML gracefully', () => {
       const chapters = parser.parseChapters('');
@@ -202,7 +181,7 @@ describe('Bible Parser', () => {
       `;
 
       const chapters = parser.parseChapters(html);
-      const verses = chapters[0].sections[0].verses;
+      const verses = sectionVerses(chapters[0].sections[0]);
 
       expect(verses).toHaveLength(1);
       expect(verses[0].number).toBe(1);
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for poetry lines and indentation
+ */
+
+import { ParsedVerse } from '../../types/index.js';
+import { createParser } from '../../services/parser.js';
+import { createMarkdownGenerator } from '../../services/markdown.js';
+import { createUsfmParser } from '../../services/usfm.js';
+import { createUsxParser } from '../../services/usx.js';
+import { createOsisParser } from '../../services/osis.js';
+import { sectionVerses } from '../../utils/chapters.js';
+
+const psalmHtml = `
+<div class="chunk" id="netText_Psalms_23">
+  <p class="poetry">
+    <span id="netText_Psalms_23_1" class="netVerse ">
+      <span class="vref"><span class="chapterNumber">23</span></span>
+      The <span class="smallcaps">Lord</span> is my shepherd,<sup><a href="#" class="netNoteSuper">2</a></sup><br />
+      <span class="indent">&nbsp;&nbsp;</span>I lack nothing.<br />
+    </span>
+    <span id="netText_Psalms_23_2" class="netVerse ">
+      <span class="vref"><span class="verseNumber">2</span></span>
+      He takes me to lush pastures,<br />
+      <span class="indent2">&nbsp;&nbsp;&nbsp;&nbsp;</span>he leads me to refreshing water.<br />
+    </span>
+  </p>
+  <p class="bodytext">
+    <span id="netText_Psalms_23_3" class="netVerse ">
+      <span class="vref"><span class="verseNumber">3</span></span>
+      He restores my strength.
+    </span>
+  </p>
+</div>`;
+
+const psalmUsfm = `\\id PSA
+\\c 23
+\\q1 \\v 1 The \\nd Lord\\nd* is my shepherd,
+\\q2 I lack nothing.
+\\q1 \\v 2 He takes me to lush pastures,
+\\q2 he leads me to refreshing water.
+\\b
+\\q1 \\v 3 He restores my strength.
+\\p \\v 4 Even when I must walk through the darkest valley.`;
+
+describe('Poetry', () => {
+  describe('BibleParser', () => {
+    const [chapter] = createParser().parseChapters(psalmHtml);
+    const [verse1, verse2, verse3] = sectionVerses(chapter.sections[0]);
+
+    it('should split poetry verses into indented lines', () => {
+      expect(verse1.text).toBe('The Lord is my shepherd, I lack nothing.');
+      expect(verse1.lines).toEqual([
+        { text: 'The Lord is my shepherd,', indent: 0, segments: [
+          { text: 'The ', formats: [] },
+          { text: 'Lord', formats: ['divineName'] },
+          { text: ' is my shepherd,', formats: [] }
+        ] },
+        { text: 'I lack nothing.', indent: 1 }
+      ]);
+      expect(verse1.footnoteNumbers).toEqual([2]);
+      expect(verse2.lines!.map(line => line.indent)).toEqual([0, 2]);
+    });
+
+    it('should leave prose without lines', () => {
+      expect(verse3.text).toBe('He restores my strength.');
+      expect(verse3.lines).toBeUndefined();
+    });
+  });
+
+  describe('local sources', () => {
+    it('should read \\q levels from USFM, across stanza breaks', () => {
+      const verses = sectionVerses(createUsfmParser().parseBook(psalmUsfm)!.chapters[0].sections[0]);
+
+      expect(verses[0].lines).toEqual([
+        { text: 'The Lord is my shepherd,', indent: 0, segments: [
+          { text: 'The ', formats: [] },
+          { text: 'Lord', formats: ['divineName'] },
+          { text: ' is my shepherd,', formats: [] }
+        ] },
+        { text: 'I lack nothing.', indent: 1 }
+      ]);
+      expect(verses[2].lines).toEqual([{ text: 'He restores my strength.', indent: 0 }]);
+      expect(verses[3].lines).toBeUndefined();
+    });
+
+    it('should read q style paragraphs from USX', () => {
+      const usx = `<usx version="3.0"><book code="PSA" style="id"/><chapter number="23" style="c"/>
+        <para style="q1"><verse number="1" style="v"/>The LORD is my shepherd,</para>
+        <para style="q2">I lack nothing.<verse eid="PSA 23:1"/></para>
+        <para style="p"><verse number="2" style="v"/>He takes me to lush pastures.</para></usx>`;
+      const verses = sectionVerses(createUsxParser().parseBook(usx)!.chapters[0].sections[0]);
+
+      expect(verses[0].lines).toEqual([
+        { text: 'The LORD is my shepherd,', indent: 0 },
+        { text: 'I lack nothing.', indent: 1 }
+      ]);
+      expect(verses[1].lines).toBeUndefined();
+    });
+
+    it('should read <l level> from OSIS', () => {
+      const osis = `<osis><osisText><div type="book" osisID="Ps"><chapter osisID="Ps.23">
+        <lg><l level="1"><verse sID="Ps.23.1" osisID="Ps.23.1"/>The LORD is my shepherd,</l>
+        <l level="2">I lack nothing.<verse eID="Ps.23.1"/></l></lg>
+        <p><verse osisID="Ps.23.2">He takes me to lush pastures.</verse></p>
+      </chapter></div></osisText></osis>`;
+      const verses = sectionVerses(createOsisParser().parseBooks(osis)[0].chapters[0].sections[0]);
+
+      expect(verses[0].lines).toEqual([
+        { text: 'The LORD is my shepherd,', indent: 0 },
+        { text: 'I lack nothing.', indent: 1 }
+      ]);
+      expect(verses[1].lines).toBeUndefined();
+    });
+  });
+
+  describe('MarkdownGenerator', () => {
+    const verse: ParsedVerse = {
+      number: 1,
+      text: 'The LORD is my shepherd, I lack nothing.',
+      id: 'v1',
+      footnoteNumbers: [2],
+      lines: [
+        { text: 'The LORD is my shepherd,', indent: 0 },
+        { text: 'I lack nothing.', indent: 1 }
+      ]
+    };
+    const chapter = { book: 'Psalms', chapter: 23, sections: [{ paragraphs: [{ verses: [verse] }] }] };
+
+    it('should use hard line breaks and keep the anchor after the last line', () => {
+      const markdown = createMarkdownGenerator('study', 'NET').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('### 1\nThe LORD is my shepherd,  \n&emsp;&emsp;I lack nothing.[^2] ^1\n\n');
+    });
+
+    it('should break lines in the simple style too', () => {
+      const markdown = createMarkdownGenerator('simple', 'NET').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('**1** The LORD is my shepherd,  \n&emsp;&emsp;I lack nothing.[^2]');
+    });
+
+    it('should use <br> inside parallel table cells', () => {
+      const markdown = createMarkdownGenerator('simple', 'NET', 'table').generateChapterMarkdown({
+        ...chapter,
+        parallel: { version: 'NASB', sections: [{ paragraphs: [{ verses: [{ ...verse, footnoteNumbers: [] }] }] }] }
+      });
+
+      expect(markdown).toContain('| 1 | The LORD is my shepherd,<br>&emsp;&emsp;I lack nothing.[^2] | The LORD is my shepherd,<br>&emsp;&emsp;I lack nothing. |');
+    });
+  });
+});
\ No newline at end of file
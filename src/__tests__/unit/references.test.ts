@@ -0,0 +1,84 @@
+/**
+ * Unit tests for parsing and formatting verse references
+ */
+
+import { findReferences, formatReference, parseReference, parseReferences, referenceLink } from '../../utils/references.js';
+
+describe('Verse References', () => {
+  describe('parseReference', () => {
+    it('should parse verses and verse ranges with any book abbreviation', () => {
+      expect(parseReference('Jn 3:16')).toMatchObject({ book: 'John', chapter: 3, verse: 16, display: 'Jn 3:16' });
+      expect(parseReference('1 Cor 13:4-7')).toMatchObject({ book: '1 Corinthians', chapter: 13, verse: 4, endVerse: 7 });
+      expect(parseReference('1Co 7:1')).toMatchObject({ book: '1 Corinthians', chapter: 7, verse: 1 });
+    });
+
+    it('should parse chapters and chapter ranges', () => {
+      expect(parseReference('Ps 23')).toEqual({ book: 'Psalms', chapter: 23, display: 'Ps 23' });
+      expect(parseReference('Ps 23–24')).toMatchObject({ chapter: 23, endChapter: 24 });
+    });
+
+    it('should parse ranges across chapters', () => {
+      expect(parseReference('Gen 1:1–2:3')).toMatchObject({ book: 'Genesis', chapter: 1, verse: 1, endChapter: 2, endVerse: 3 });
+      expect(parseReference('Gen 1:1-1:5')).toEqual({ book: 'Genesis', chapter: 1, verse: 1, endVerse: 5, display: 'Gen 1:1-1:5' });
+    });
+
+    it('should reject unknown books and chapters a book does not have', () => {
+      expect(parseReference('Hezekiah 3:1')).toBeNull();
+      expect(parseReference('Jude 2:1')).toBeNull();
+      expect(parseReference('12 apostles')).toBeNull();
+    });
+  });
+
+  describe('findReferences', () => {
+    it('should continue a book across semicolons and commas', () => {
+      const references = parseReferences('1 Cor 13:4-7; 14:1, 5 and Ps 23; 27');
+
+      expect(references.map(formatReference)).toEqual([
+        '1 Corinthians 13:4–7', '1 Corinthians 14:1', '1 Corinthians 14:5', 'Psalms 23', 'Psalms 27'
+      ]);
+      expect(references.map(reference => reference.display)).toEqual(['1 Cor 13:4-7', '14:1', '5', 'Ps 23', '27']);
+    });
+
+    it('should not take the number of the next book as a verse', () => {
+      const references = parseReferences('Rom 8:28, 2 Kings 3:4');
+
+      expect(references.map(formatReference)).toEqual(['Romans 8:28', '2 Kings 3:4']);
+    });
+
+    it('should read verse markers in the current chapter', () => {
+      const matches = findReferences('Compare vv. 3, 5 and v. 7.', { book: 'John', chapter: 3 });
+
+      expect(matches.map(match => formatReference(match.reference))).toEqual(['John 3:3', 'John 3:5', 'John 3:7']);
+      expect(matches.map(match => match.index)).toEqual([8, 15, 21]);
+    });
+
+    it('should give bare chapter and verse to the current book', () => {
+      expect(parseReferences('Cf. 1:4 and 3:16', 'John').map(formatReference)).toEqual(['John 1:4', 'John 3:16']);
+      expect(parseReferences('Cf. 1:4 and 3:16')).toEqual([]);
+      expect(findReferences('See v. 4')).toEqual([]);
+    });
+
+    it('should not read a book code and a bare number in ordinary text as a chapter', () => {
+      expect(parseReferences('Is 2 of them named? Am 3 days enough?')).toEqual([]);
+      expect(parseReferences('Is 2:4 and Isaiah 2').map(formatReference)).toEqual(['Isaiah 2:4', 'Isaiah 2']);
+    });
+
+    it('should find books after words that look like book names', () => {
+      expect(parseReferences('In 1 John 2:3 the Gospel of John 1:1 is echoed').map(reference => reference.display))
+        .toEqual(['1 John 2:3', 'John 1:1']);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format references with en dashes and full book names', () => {
+      expect(formatReference({ book: 'John', chapter: 3, verse: 16, endVerse: 18 })).toBe('John 3:16–18');
+      expect(formatReference({ book: 'Genesis', chapter: 1, verse: 1, endChapter: 2, endVerse: 3 })).toBe('Genesis 1:1–2:3');
+      expect(formatReference({ book: 'Psalms', chapter: 23, endChapter: 24 })).toBe('Psalms 23–24');
+    });
+
+    it('should link to the first verse or the chapter', () => {
+      expect(referenceLink(parseReference('Gen 1:1–2:3')!)).toBe('[[Genesis 1#1|Gen 1:1–2:3]]');
+      expect(referenceLink(parseReference('Ps 23')!, 'Psalm 23')).toBe('[[Psalms 23|Psalm 23]]');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for request retries, backoff and rate limiting
+ */
+
+import { AxiosError, AxiosHeaders } from 'axios';
+import { computeRetryDelay, isRetryableStatus, parseRetryAfter } from '../../utils/retry.js';
+import { RateLimiter } from '../../services/rateLimiter.js';
+import { BibleApiService } from '../../services/api.js';
+import { DEFAULT_RETRY_OPTIONS } from '../../utils/constants.js';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, {
+    status,
+    statusText: '',
+    headers,
+    config,
+    data: ''
+  });
+}
+
+describe('Retry and Rate Limiting', () => {
+  describe('isRetryableStatus', () => {
+    it('should retry network errors, rate limiting and server errors only', () => {
+      expect(isRetryableStatus(undefined)).toBe(true);
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+      expect(isRetryableStatus(404)).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('5')).toBe(5000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should grow exponentially up to the maximum delay', () => {
+      const options = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 100, maxDelayMs: 1000 };
+
+      expect(computeRetryDelay(0, options, null, () => 1)).toBe(100);
+      expect(computeRetryDelay(2, options, null, () => 1)).toBe(400);
+      expect(computeRetryDelay(10, options, null, () => 1)).toBe(1000);
+    });
+
+    it('should apply full jitter', () => {
+      const options = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 100 };
+
+      expect(computeRetryDelay(1, options, null, () => 0.5)).toBe(100);
+      expect(computeRetryDelay(1, options, null, () => 0)).toBe(0);
+    });
+
+    it('should honor Retry-After within the configured cap', () => {
+      expect(computeRetryDelay(0, DEFAULT_RETRY_OPTIONS, 3000)).toBe(3000);
+      expect(computeRetryDelay(0, DEFAULT_RETRY_OPTIONS, 10 * 60 * 1000)).toBe(DEFAULT_RETRY_OPTIONS.maxRetryAfterMs);
+    });
+  });
+
+  describe('RateLimiter', () => {
+    it('should never exceed the in-flight limit', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 1000, maxInFlight: 2 });
+      let active = 0;
+      let peak = 0;
+
+      await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+      })));
+
+      expect(peak).toBe(2);
+      expect(limiter.active).toBe(0);
+    });
+
+    it('should space out request starts', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 50, maxInFlight: 10 });
+      const starts: number[] = [];
+
+      await Promise.all(Array.from({ length: 3 }, () => limiter.schedule(async () => {
+        starts.push(Date.now());
+      })));
+
+      expect(starts[2] - starts[0]).toBeGreaterThanOrEqual(35);
+    });
+
+    it('should release its slot when a task fails', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 1000, maxInFlight: 1 });
+
+      await expect(limiter.schedule(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+      await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+    });
+  });
+
+  describe('BibleApiService retries', () => {
+    const fastRetry = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+    const rateLimit = { requestsPerSecond: 1000, maxInFlight: 4 };
+
+    it('should retry transient failures and then succeed', async () => {
+      const api = new BibleApiService({ retry: fastRetry, rateLimit });
+      const get = jest.spyOn((api as any).client, 'get')
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce({ data: '<div class="note"></div>' });
+
+      await expect(api.fetchFootnotes('John', 3, 'net_strongs2')).resolves.toBe('<div class="note"></div>');
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const api = new BibleApiService({ retry: fastRetry, rateLimit });
+      const get = jest.spyOn((api as any).client, 'get').mockRejectedValue(httpError(500));
+
+      await expect(api.fetchFootnotes('John', 3, 'net_strongs2')).rejects.toThrow('after 3 attempts');
+      expect(get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const api = new BibleApiService({ retry: fastRetry, rateLimit });
+      const get = jest.spyOn((api as any).client, 'get').mockRejectedValue(httpError(404));
+
+      await expect(api.fetchFootnotes('John', 3, 'net_strongs2')).rejects.toThrow('Footnotes API request failed');
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for book and chapter selection
+ */
+
+import { parseBookSelection, countSelectedChapters } from '../../utils/selection.js';
+
+describe('Book Selection', () => {
+  describe('parseBookSelection', () => {
+    it('should select the whole Bible when no specs are given', () => {
+      const selection = parseBookSelection();
+
+      expect(selection).toHaveLength(66);
+      expect(countSelectedChapters(selection)).toBe(1189);
+    });
+
+    it('should select a whole book', () => {
+      const selection = parseBookSelection(['Romans']);
+
+      expect(selection).toEqual([
+        { name: 'Romans', chapters: Array.from({ length: 16 }, (_, i) => i + 1) }
+      ]);
+    });
+
+    it('should select chapter ranges and single chapters', () => {
+      expect(parseBookSelection(['John 3-5'])).toEqual([{ name: 'John', chapters: [3, 4, 5] }]);
+      expect(parseBookSelection(['Psalms 23'])).toEqual([{ name: 'Psalms', chapters: [23] }]);
+      expect(parseBookSelection(['Psalms 1–3'])).toEqual([{ name: 'Psalms', chapters: [1, 2, 3] }]);
+    });
+
+    it('should handle numbered and multi-word book names', () => {
+      expect(parseBookSelection(['1 John 2-3'])).toEqual([{ name: '1 John', chapters: [2, 3] }]);
+      expect(parseBookSelection(['song of solomon 1'])).toEqual([{ name: 'Song of Solomon', chapters: [1] }]);
+    });
+
+    it('should accept abbreviations and aliases', () => {
+      expect(parseBookSelection(['Jn 3', '1Cor 13', 'Song of Songs 2'])).toEqual([
+        { name: 'Song of Solomon', chapters: [2] },
+        { name: 'John', chapters: [3] },
+        { name: '1 Corinthians', chapters: [13] }
+      ]);
+    });
+
+    it('should select testaments', () => {
+      const newTestament = parseBookSelection(['NT']);
+      const oldTestament = parseBookSelection(['Old Testament']);
+
+      expect(newTestament).toHaveLength(27);
+      expect(newTestament[0].name).toBe('Matthew');
+      expect(oldTestament).toHaveLength(39);
+      expect(oldTestament[38].name).toBe('Malachi');
+    });
+
+    it('should merge overlapping specs in canonical order', () => {
+      const selection = parseBookSelection(['John 4-5', 'Genesis 1', 'John 3-4']);
+
+      expect(selection).toEqual([
+        { name: 'Genesis', chapters: [1] },
+        { name: 'John', chapters: [3, 4, 5] }
+      ]);
+    });
+
+    it('should accept comma separated specs', () => {
+      const selection = parseBookSelection(['Romans 8, John 3']);
+
+      expect(selection.map(book => book.name)).toEqual(['John', 'Romans']);
+    });
+
+    it('should reject unknown books and invalid chapters', () => {
+      expect(() => parseBookSelection(['Hezekiah'])).toThrow('Unknown book');
+      expect(() => parseBookSelection(['John 22'])).toThrow('John has 21 chapters');
+      expect(() => parseBookSelection(['John 5-3'])).toThrow('Invalid chapter range');
+    });
+  });
+});
\ No newline at end of file
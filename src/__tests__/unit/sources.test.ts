@@ -0,0 +1,114 @@
+/**
+ * Unit tests for Bible source providers
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { NetBibleSource } from '../../sources/netbible.js';
+import { createBibleSource } from '../../sources/index.js';
+import { BibleApiService } from '../../services/api.js';
+import { applyVersionDefaults, createVersionRegistry } from '../../services/versions.js';
+import { sectionVerses } from '../../utils/chapters.js';
+
+const registry = createVersionRegistry();
+const NET = registry.get('NET')!;
+const NASB = registry.get('NASB')!;
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '../fixtures', name), 'utf8');
+
+describe('Bible Sources', () => {
+  describe('NetBibleSource', () => {
+    let api: BibleApiService;
+
+    beforeEach(() => {
+      api = new BibleApiService();
+    });
+
+    it('should parse the requested chapters from the API response', async () => {
+      jest.spyOn(api, 'fetchBookChapters').mockResolvedValue([{ bible1: fixture('sample-chapter.html'), bible2: '' }]);
+      const source = new NetBibleSource(NET, api, NASB);
+
+      const chapters = await source.fetchChapters('John', [3]);
+
+      expect(chapters).toHaveLength(1);
+      expect(chapters[0]).toMatchObject({ book: 'John', chapter: 3 });
+      expect(sectionVerses(chapters[0].sections[0]).length).toBeGreaterThan(0);
+    });
+
+    it('should drop chapters that were not requested', async () => {
+      jest.spyOn(api, 'fetchBookChapters').mockResolvedValue([{ bible1: fixture('sample-chapter.html'), bible2: '' }]);
+      const source = new NetBibleSource(NET, api, NASB);
+
+      expect(await source.fetchChapters('John', [4])).toEqual([]);
+    });
+
+    it('should parse footnotes for a chapter', async () => {
+      jest.spyOn(api, 'fetchFootnotes').mockResolvedValue(fixture('sample-footnotes.html'));
+      const source = new NetBibleSource(NET, api, NASB);
+
+      const footnotes = await source.fetchFootnotes('John', 3);
+
+      expect(footnotes.length).toBeGreaterThan(0);
+      expect(footnotes[0]).toHaveProperty('type');
+    });
+
+    it('should request its own translation first and parse that text', async () => {
+      const fetchBookChapters = jest.spyOn(api, 'fetchBookChapters')
+        .mockResolvedValue([{ bible1: fixture('sample-chapter.html'), bible2: '<div>other translation</div>' }]);
+      const source = new NetBibleSource(NASB, api, NET);
+
+      const chapters = await source.fetchChapters('John', [3]);
+
+      expect(fetchBookChapters).toHaveBeenCalledWith('John', [3], 'nasb', 'net_strongs2', 20);
+      expect(chapters[0].chapter).toBe(3);
+    });
+
+    it('should refuse a version without a translation instead of asking for NET', () => {
+      expect(() => new NetBibleSource({ ...NET, code: 'NETX', translation: undefined }, api, NASB))
+        .toThrow('Version "NETX" has no netbible.org translation');
+    });
+
+    it('should list every chapter of a book from the registry', async () => {
+      expect(await new NetBibleSource(NET, api, NASB).listChapters('Jude')).toEqual([1]);
+      expect(await new NetBibleSource(NET, api, NASB).listChapters('John')).toHaveLength(21);
+    });
+
+    it('should offer footnotes when the registry says so', () => {
+      expect(new NetBibleSource(NET, api, NASB).hasFootnotes()).toBe(true);
+      expect(new NetBibleSource(NASB, api, NET).hasFootnotes()).toBe(false);
+    });
+  });
+
+  describe('createBibleSource', () => {
+    const config = { version: 'NET' as const, style: 'study' as const, outputDir: './output' };
+
+    it('should default to the netbible provider', () => {
+      expect(createBibleSource(config).name).toBe('netbible');
+    });
+
+    it('should refuse offline mode without the cache', () => {
+      expect(() => createBibleSource({ ...config, offline: true, cache: false })).toThrow('Offline mode needs the response cache');
+    });
+
+    it('should refuse versions netbible.org does not have', () => {
+      expect(() => createBibleSource({ ...config, version: 'KJV' })).toThrow('netbible.org does not have version "KJV" (choose NET or NASB)');
+    });
+
+    it('should pick the source and input of a registered version', async () => {
+      const source = createBibleSource(applyVersionDefaults({
+        ...config,
+        version: 'KJV',
+        versions: [{
+          code: 'KJV',
+          name: 'King James Version',
+          source: 'osis',
+          input: path.join(__dirname, '../fixtures/sample-john.osis.xml'),
+          footnotes: false
+        }]
+      }));
+
+      expect(source.name).toBe('osis');
+      expect(source.hasFootnotes()).toBe(false);
+      expect(await source.listBooks()).toEqual(['John', 'Jude']);
+    });
+  });
+});
\ No newline at end of file
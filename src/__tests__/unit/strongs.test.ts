@@ -0,0 +1,91 @@
+/**
+ * Unit tests for Strong's numbers from net_strongs2
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ParsedChapter } from '../../types/index.js';
+import { createParser } from '../../services/parser.js';
+import { createMarkdownGenerator } from '../../services/markdown.js';
+import { sectionVerses } from '../../utils/chapters.js';
+
+const genesisHtml = `
+<div class="chunk" id="netText_Genesis_1">
+  <p class="bodytext">
+    <span id="netText_Genesis_1_1" class="netVerse ">
+      <span class="vref"><span class="chapterNumber">1</span></span>
+      In the <st data-num="07225">beginning</st> <st data-num="0430">God</st> created the heavens and the earth.
+    </span>
+  </p>
+</div>`;
+
+describe("Strong's Numbers", () => {
+  describe('BibleParser', () => {
+    it('should tag New Testament words with Greek numbers', () => {
+      const html = fs.readFileSync(path.join(__dirname, '../fixtures/sample-chapter.html'), 'utf8');
+      const [verse1] = sectionVerses(createParser().parseChapters(html)[0].sections[0]);
+
+      expect(verse1.text).toMatch(/^Now a certain man, a Pharisee named Nicodemus/);
+      expect(verse1.segments!.slice(0, 4)).toEqual([
+        { text: 'Now', formats: [], strongs: ['G1161'] },
+        { text: ' a certain ', formats: [] },
+        { text: 'man', formats: [], strongs: ['G444'] },
+        { text: ', a ', formats: [] }
+      ]);
+      expect(verse1.segments!.find(segment => segment.text === 'ruling council')!.strongs).toEqual(['G758']);
+    });
+
+    it('should tag Old Testament words with Hebrew numbers without leading zeros', () => {
+      const [verse1] = sectionVerses(createParser().parseChapters(genesisHtml)[0].sections[0]);
+
+      expect(verse1.segments!.filter(segment => segment.strongs)).toEqual([
+        { text: 'beginning', formats: [], strongs: ['H7225'] },
+        { text: 'God', formats: [], strongs: ['H430'] }
+      ]);
+    });
+  });
+
+  describe('MarkdownGenerator', () => {
+    const chapter: ParsedChapter = {
+      book: 'John',
+      chapter: 3,
+      sections: [{
+        paragraphs: [{
+          verses: [{
+            number: 16,
+            text: 'For God so loved the world',
+            id: 'v16',
+            footnoteNumbers: [1],
+            segments: [
+              { text: 'For ', formats: [] },
+              { text: 'God', formats: ['wordsOfJesus'], strongs: ['G2316'] },
+              { text: ' so ', formats: ['wordsOfJesus'] },
+              { text: 'loved', formats: ['wordsOfJesus'], strongs: ['G25'] },
+              { text: ' the world', formats: [] }
+            ]
+          }]
+        }]
+      }]
+    };
+
+    it('should leave the numbers out by default', () => {
+      const markdown = createMarkdownGenerator('simple', 'NET').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('**16** For God so loved the world[^1]');
+    });
+
+    it('should link each number with a superscript label', () => {
+      const markdown = createMarkdownGenerator('study', 'NET', undefined, undefined, 'links').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('For <span class="words-of-jesus">God[[G2316|ᴳ²³¹⁶]] so loved[[G25|ᴳ²⁵]]</span> the world[^1] ^16');
+    });
+
+    it('should add footnote markers with one definition per number', () => {
+      const markdown = createMarkdownGenerator('simple', 'NET', undefined, { simple: { wordsOfJesus: 'off' } }, 'footnotes')
+        .generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('**16** For God[^G2316] so loved[^G25] the world[^1]');
+      expect(markdown).toContain("## Strong's Numbers\n\n[^G2316]: [[G2316]]\n\n[^G25]: [[G25]]");
+    });
+  });
+});
\ No newline at end of file
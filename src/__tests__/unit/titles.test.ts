@@ -0,0 +1,180 @@
+/**
+ * Unit tests for chapter titles and psalm superscriptions
+ */
+
+import { ParsedChapter } from '../../types/index.js';
+import { createParser } from '../../services/parser.js';
+import { createMarkdownGenerator } from '../../services/markdown.js';
+import { createUsfmParser } from '../../services/usfm.js';
+import { createUsxParser } from '../../services/usx.js';
+import { createOsisParser } from '../../services/osis.js';
+import { chapterTitle, chapterVerses } from '../../utils/chapters.js';
+
+const psalmHtml = `
+<div class="chunk" id="netText_Psalms_3">
+  <p class="psasuper">A psalm of David, written when he fled from his son Absalom.<sup><a href="#" class="netNoteSuper">1</a></sup></p>
+  <p class="poetry">
+    <span id="netText_Psalms_3_1" class="netVerse ">
+      <span class="vref"><span class="chapterNumber">3</span></span>
+      LORD, how numerous are my enemies!<br />
+    </span>
+  </p>
+  <p class="psasuper">Interlude</p>
+  <p class="poetry">
+    <span id="netText_Psalms_3_2" class="netVerse ">
+      <span class="vref"><span class="verseNumber">2</span></span>
+      Many say about me.<br />
+    </span>
+  </p>
+</div>`;
+
+const habakkukHtml = `
+<div class="chunk" id="netText_Habakkuk_3">
+  <p class="bodytext">
+    <span id="netText_Habakkuk_3_1" class="netVerse ">
+      <span class="vref"><span class="chapterNumber">3</span></span>
+      <span class="superscription">A prayer of Habakkuk.<sup><a href="#" class="netNoteSuper">1</a></sup></span>
+      The prophet prayed.<sup><a href="#" class="netNoteSuper">2</a></sup>
+    </span>
+    <span id="netText_Habakkuk_3_2" class="netVerse ">
+      <span class="vref"><span class="verseNumber">2</span></span>
+      <span class="superscription">Only a title</span>
+    </span>
+  </p>
+</div>`;
+
+describe('Chapter Titles', () => {
+  describe('BibleParser', () => {
+    it('should title the chapter with a superscription before the first verse', () => {
+      const [chapter] = createParser().parseChapters(psalmHtml);
+
+      expect(chapter.title).toBe('A psalm of David, written when he fled from his son Absalom.');
+      expect(chapterVerses(chapter.sections)[0].text).toBe('LORD, how numerous are my enemies!');
+    });
+
+    it('should start a section for a title after the first verse', () => {
+      const [chapter] = createParser().parseChapters(psalmHtml);
+
+      expect(chapter.sections.map(section => section.title)).toEqual([undefined, 'Interlude']);
+    });
+
+    it('should take a superscription out of the verse it is mixed into', () => {
+      const [chapter] = createParser().parseChapters(habakkukHtml);
+      const [verse1, verse2] = chapterVerses(chapter.sections);
+
+      expect(chapter.title).toBeUndefined();
+      expect(verse1).toMatchObject({ title: 'A prayer of Habakkuk.', text: 'The prophet prayed.', footnoteNumbers: [1, 2] });
+      expect(verse2.text).toBe('Only a title');
+      expect(verse2.title).toBeUndefined();
+      expect(chapterTitle(chapter)).toBe('A prayer of Habakkuk.');
+    });
+
+    it('should leave chapters without titles untitled', () => {
+      const [chapter] = createParser().parseChapters(`
+<div class="chunk" id="netText_John_3">
+  <p class="bodytext"><span id="netText_John_3_1" class="netVerse ">Now a certain man.</span></p>
+</div>`);
+
+      expect(chapter.title).toBeUndefined();
+      expect(chapterTitle(chapter)).toBeUndefined();
+    });
+  });
+
+  describe('local sources', () => {
+    it('should read \\d before the first verse as the chapter title', () => {
+      const book = createUsfmParser().parseBook(`\\id PSA
+\\c 3
+\\d A psalm of David.\\f + \\ft Note.\\f*
+\\q1 \\v 1 LORD, how numerous are my enemies!
+\\c 4
+\\d For the music director;
+\\q1 \\v 1 When I call out to you, answer me.`)!;
+
+      expect(book.chapters.map(chapter => chapter.title)).toEqual(['A psalm of David.', 'For the music director;']);
+      expect(chapterVerses(book.chapters[0].sections)[0].text).toBe('LORD, how numerous are my enemies!');
+    });
+
+    it('should keep a \\d that holds verse 1 (Hebrew numbering) as verse text', () => {
+      const book = createUsfmParser().parseBook(`\\id PSA
+\\c 3
+\\d \\v 1 A psalm of David.
+\\q1 \\v 2 LORD, how numerous are my enemies!`)!;
+
+      expect(book.chapters[0].title).toBeUndefined();
+      expect(chapterVerses(book.chapters[0].sections).map(verse => verse.text))
+        .toEqual(['A psalm of David.', 'LORD, how numerous are my enemies!']);
+    });
+
+    it('should read <para style="d"> from USX', () => {
+      const usx = `<usx version="3.0"><book code="PSA" style="id"/><chapter number="3" style="c"/>
+        <para style="d">A psalm of David.</para>
+        <para style="q1"><verse number="1" style="v"/>LORD, how numerous are my enemies!</para></usx>`;
+      const [chapter] = createUsxParser().parseBook(usx)!.chapters;
+
+      expect(chapter.title).toBe('A psalm of David.');
+      expect(chapterVerses(chapter.sections)[0].text).toBe('LORD, how numerous are my enemies!');
+    });
+
+    it('should read psalm titles from OSIS, before or inside the first verse', () => {
+      const osis = `<osis><osisText><div type="book" osisID="Ps">
+        <chapter osisID="Ps.3"><title type="psalm" canonical="true">A psalm of David.</title>
+          <verse osisID="Ps.3.1">LORD, how numerous are my enemies!</verse></chapter>
+        <chapter osisID="Ps.4"><verse osisID="Ps.4.1"><title type="psalm" canonical="true">For the music director.</title>
+          When I call out to you, answer me.</verse></chapter>
+      </div></osisText></osis>`;
+      const [psalm3, psalm4] = createOsisParser().parseBooks(osis)[0].chapters;
+
+      expect(psalm3.title).toBe('A psalm of David.');
+      expect(chapterVerses(psalm4.sections)[0]).toMatchObject({
+        title: 'For the music director.',
+        text: 'When I call out to you, answer me.'
+      });
+    });
+  });
+
+  describe('MarkdownGenerator', () => {
+    const chapter: ParsedChapter = {
+      book: 'Psalms',
+      chapter: 3,
+      title: 'A psalm of David: "when he fled"',
+      sections: [{ paragraphs: [{ verses: [
+        { number: 1, text: 'LORD, how numerous are my enemies!', id: 'v1', title: 'Selah' }
+      ] }] }]
+    };
+
+    it('should put the title under the heading and in the frontmatter', () => {
+      const markdown = createMarkdownGenerator('study', 'NET').generateChapterMarkdown(chapter);
+
+      expect(markdown).toContain('version: NET\ntitle: "A psalm of David: \\"when he fled\\""\n---');
+      expect(markdown).toContain('[[Psalms 4|Psalms 4 →]]\n\n\n*A psalm of David: "when he fled"*\n\n### 1\n');
+    });
+
+    it('should render verse titles on a line of their own in every style', () => {
+      const render = (style: 'study' | 'simple' | 'reading' | 'manual') =>
+        createMarkdownGenerator(style, 'NET').generateChapterMarkdown(chapter);
+
+      expect(render('study')).toContain('### 1\n*Selah*  \nLORD, how numerous are my enemies! ^1');
+      expect(render('simple')).toContain('# Psalms 3\n\n\n*A psalm of David: "when he fled"*\n\n**1** *Selah*  \nLORD');
+      expect(render('reading')).toContain('<sup id="1">1</sup> *Selah*  \nLORD, how numerous are my enemies! ^1');
+      expect(render('manual')).toContain('1. *Selah*  \nLORD, how numerous are my enemies! ^[[Psalms 3#1]]');
+    });
+
+    it('should use <br> after a verse title in parallel tables', () => {
+      const markdown = createMarkdownGenerator('simple', 'NET', 'table').generateChapterMarkdown({
+        ...chapter,
+        parallel: { version: 'NASB', sections: chapter.sections }
+      });
+
+      expect(markdown).toContain('| 1 | *Selah*<br>LORD, how numerous are my enemies! |');
+    });
+
+    it('should describe titled chapters in the book index', () => {
+      const chapters = [{ chapter: 2, verses: 12 }, { chapter: 3, verses: 8, title: 'A psalm of David.' }];
+
+      expect(createMarkdownGenerator('study', 'NET').generateBookIndex('Psalms', chapters))
+        .toBe('# Psalms\n\n## Chapters\n\n- [[Psalms 2]] (12 verses)\n- [[Psalms 3]] (8 verses): *A psalm of David.*\n');
+      expect(createMarkdownGenerator('simple', 'NET').generateBookIndex('Psalms', chapters))
+        .toContain('- [[Psalms 3]]: *A psalm of David.*\n');
+    });
+  });
+});
\ No newline at end of file
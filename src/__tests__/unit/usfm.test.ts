@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the USFM import source
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { createUsfmParser } from '../../services/usfm.js';
+import { UsfmSource } from '../../sources/usfm.js';
+import { sectionVerses } from '../../utils/chapters.js';
+import { resolveBookName } from '../../utils/books.js';
+import { parseReferences } from '../../utils/references.js';
+
+const fixturePath = path.join(__dirname, '../fixtures/sample-john.usfm');
+
+describe('USFM Import', () => {
+  describe('UsfmParser', () => {
+    const parsed = createUsfmParser().parseBook(fs.readFileSync(fixturePath, 'utf8'))!;
+    const chapter3 = parsed.chapters.find(chapter => chapter.chapter === 3)!;
+
+    it('should identify the book from the \\id line', () => {
+      expect(parsed.book).toBe('John');
+      expect(parsed.chapters.map(chapter => chapter.chapter)).toEqual([1, 3]);
+    });
+
+    it('should map \\s headings to section titles', () => {
+      expect(parsed.chapters[0].sections[0].title).toBe('The Word Became Flesh');
+      expect(chapter3.sections.map(section => section.title)).toEqual(['You Must Be Born Again', 'The Testimony of John']);
+    });
+
+    it('should keep verse text without markers, attributes or notes', () => {
+      const verse16 = sectionVerses(chapter3.sections[0])[0];
+
+      expect(verse16.number).toBe(16);
+      expect(verse16.text).toBe('For God so loved the world, that he gave his one and only Son, that whoever believes in him should not perish, but have eternal life.');
+      expect(sectionVerses(chapter3.sections[1])[0].text).toBe('He must increase, but I must decrease.”');
+    });
+
+    it('should turn \\f notes into footnotes on their verse', () => {
+      const [footnote] = parsed.footnotes[3];
+
+      expect(footnote).toMatchObject({ id: 'note_1', number: 1, type: 'fn', content: 'Or, only born Son', verse: 16 });
+      expect(sectionVerses(chapter3.sections[0])[0].footnoteNumbers).toEqual([1]);
+    });
+
+    it('should turn \\x cross-references into verse references', () => {
+      const [crossReference] = parsed.footnotes[1];
+
+      expect(crossReference.type).toBe('cr');
+      expect(crossReference.verseReferences).toEqual([
+        { book: 'Genesis', chapter: 1, verse: 1, endVerse: undefined, display: 'Gen 1:1' },
+        { book: '1 John', chapter: 1, verse: 1, endVerse: undefined, display: '1 John 1:1' }
+      ]);
+    });
+
+    it('should ignore files without a known book code', () => {
+      expect(createUsfmParser().parseBook('\\id XYZ\n\\c 1\n\\v 1 Text')).toBeNull();
+    });
+  });
+
+  describe('UsfmSource', () => {
+    let inputDir: string;
+
+    beforeEach(async () => {
+      inputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bible2md-usfm-'));
+      await fs.copy(fixturePath, path.join(inputDir, '44JHNWEB.usfm'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(inputDir);
+    });
+
+    it('should list the books in the directory and return requested chapters', async () => {
+      const source = new UsfmSource(inputDir);
+
+      expect(await source.listBooks()).toEqual(['John']);
+      expect(await source.listChapters('John')).toEqual([1, 3]);
+      expect(await source.listChapters('Mark')).toEqual([]);
+      expect((await source.fetchChapters('John', [3])).map(chapter => chapter.chapter)).toEqual([3]);
+      expect(await source.fetchFootnotes('John', 3)).toHaveLength(2);
+    });
+
+    it('should merge a book split across several files', async () => {
+      const usfm = await fs.readFile(fixturePath, 'utf8');
+      const split = usfm.indexOf('\\c 3');
+      await fs.remove(path.join(inputDir, '44JHNWEB.usfm'));
+      await fs.writeFile(path.join(inputDir, 'JHN-01.usfm'), usfm.slice(0, split));
+      await fs.writeFile(path.join(inputDir, 'JHN-03.usfm'), `\\id JHN\n${usfm.slice(split)}`);
+      const source = new UsfmSource(inputDir);
+
+      expect(await source.listBooks()).toEqual(['John']);
+      expect((await source.fetchChapters('John', [1, 3])).map(chapter => chapter.chapter)).toEqual([1, 3]);
+      expect(await source.fetchFootnotes('John', 3)).toHaveLength(2);
+    });
+
+    it('should fail for books that are not in the directory', async () => {
+      await expect(new UsfmSource(inputDir).fetchChapters('Mark', [1])).rejects.toThrow('Mark is not in');
+    });
+  });
+
+  describe('references', () => {
+    it('should resolve names, codes and unambiguous abbreviations', () => {
+      expect(resolveBookName('Gen')).toBe('Genesis');
+      expect(resolveBookName('1CO')).toBe('1 Corinthians');
+      expect(resolveBookName('Song of Solomon')).toBe('Song of Solomon');
+      expect(resolveBookName('Jo')).toBeUndefined();
+    });
+
+    it('should carry the book over to bare chapter references', () => {
+      expect(parseReferences('Isa 40:3; 41:2-4').map(ref => `${ref.book} ${ref.chapter}:${ref.verse}`)).toEqual([
+        'Isaiah 40:3',
+        'Isaiah 41:2'
+      ]);
+    });
+  });
+});
\ No newline at end of file
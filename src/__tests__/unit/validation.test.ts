@@ -0,0 +1,95 @@
+/**
+ * Unit tests for the versification tables and chapter validation
+ */
+
+import { ParsedChapter } from '../../types/index.js';
+import { BIBLE_BOOKS } from '../../utils/constants.js';
+import { expectedVerseCount, isOptionalVerse } from '../../utils/versification.js';
+import { absentChapter, describeProblems, hasProblems, validateChapter } from '../../utils/validation.js';
+
+function chapter(book: string, number: number, verses: number[]): ParsedChapter {
+  return {
+    book,
+    chapter: number,
+    sections: [{ paragraphs: [{ verses: verses.map(verse => ({ number: verse, text: `Verse ${verse}`, id: `v${verse}` })) }] }]
+  };
+}
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i + 1);
+}
+
+describe('Versification', () => {
+  it('should count the verses of every chapter in the registry', () => {
+    BIBLE_BOOKS.forEach(book => {
+      const counts = range(book.chapters).map(number => expectedVerseCount(book.name, number, 'english'));
+      expect(counts.every(count => count !== undefined && count > 0)).toBe(true);
+      expect(expectedVerseCount(book.name, book.chapters + 1, 'english')).toBeUndefined();
+    });
+
+    const total = BIBLE_BOOKS.reduce((sum, book) =>
+      sum + range(book.chapters).reduce((verses, number) => verses + expectedVerseCount(book.name, number, 'english')!, 0), 0);
+    expect(total).toBe(31104);
+  });
+
+  it('should follow the Hebrew chapter and verse divisions for the original versification', () => {
+    expect(expectedVerseCount('Psalms', 3, 'english')).toBe(8);
+    expect(expectedVerseCount('Psalms', 3, 'original')).toBe(9);
+    expect(expectedVerseCount('Joel', 4, 'english')).toBeUndefined();
+    expect(expectedVerseCount('Joel', 4, 'original')).toBe(21);
+    expect(expectedVerseCount('Malachi', 4, 'original')).toBeUndefined();
+    expect(expectedVerseCount('John', 3, 'original')).toBe(36);
+  });
+
+  it('should know the verses critical texts leave out', () => {
+    expect(isOptionalVerse('John', 5, 4)).toBe(true);
+    expect(isOptionalVerse('John', 5, 5)).toBe(false);
+  });
+});
+
+describe('Chapter Validation', () => {
+  it('should pass a complete chapter', () => {
+    const validation = validateChapter(chapter('Jude', 1, range(25)), 'english');
+
+    expect(validation).toEqual({
+      book: 'Jude', chapter: 1, expected: 25, verses: 25, missing: [], duplicated: [], outOfOrder: [], unexpected: []
+    });
+    expect(hasProblems(validation)).toBe(false);
+  });
+
+  it('should report missing, duplicated, out-of-order and unexpected verses', () => {
+    const verses = [1, 2, 3, 5, 4, 6, 6, 8, 9, 10, 11, 12, 13, 15];
+    const validation = validateChapter(chapter('2 John', 1, verses), 'english');
+
+    expect(validation).toMatchObject({ missing: [7], duplicated: [6], outOfOrder: [4], unexpected: [15] });
+    expect(describeProblems(validation)).toBe('missing 7; duplicated 6; out of order 4; beyond the last verse 15');
+  });
+
+  it('should not require verses critical texts leave out', () => {
+    const verses = range(47).filter(verse => verse !== 4);
+
+    expect(hasProblems(validateChapter(chapter('John', 5, verses), 'english'))).toBe(false);
+    expect(validateChapter(chapter('John', 5, verses.filter(verse => verse !== 5)), 'english').missing).toEqual([5]);
+  });
+
+  it('should list missing verses as ranges', () => {
+    const validation = validateChapter(chapter('John', 3, [1, 2, 16, 17]), 'english');
+
+    expect(describeProblems(validation)).toBe('missing 3-15, 18-36');
+  });
+
+  it('should report a requested chapter the source never returned', () => {
+    const validation = absentChapter('Jude', 1, 'english');
+
+    expect(validation).toMatchObject({ book: 'Jude', chapter: 1, expected: 25, verses: 0, absent: true });
+    expect(hasProblems(validation)).toBe(true);
+    expect(describeProblems(validation)).toBe('not provided by the source');
+  });
+
+  it('should only check order and duplicates for chapters the versification lacks', () => {
+    const validation = validateChapter(chapter('Malachi', 4, [1, 2, 2]), 'original');
+
+    expect(validation.expected).toBeUndefined();
+    expect(describeProblems(validation)).toBe('duplicated 2');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for the Bible version registry
+ */
+
+import { SetupConfig } from '../../types/index.js';
+import { applyVersionDefaults, createVersionRegistry, resolveVersion } from '../../services/versions.js';
+
+describe('Version Registry', () => {
+  const base: SetupConfig = { version: 'NET', style: 'study', outputDir: './output' };
+  const kjv = { code: 'KJV', name: 'King James Version', source: 'usfm' as const, input: './kjv', copyright: 'Public domain' };
+
+  describe('VersionRegistry', () => {
+    it('should describe the built-in netbible.org versions', () => {
+      const registry = createVersionRegistry();
+
+      expect(registry.get('NET')).toMatchObject({ source: 'netbible', translation: 'net_strongs2', footnotes: true, versification: 'english' });
+      expect(registry.get('NASB')).toMatchObject({ source: 'netbible', translation: 'nasb', footnotes: false });
+      expect(registry.get('NASB')!.copyright).toContain('Lockman Foundation');
+    });
+
+    it('should fill in defaults for added versions', () => {
+      const registry = createVersionRegistry([kjv]);
+
+      expect(registry.get('KJV')).toEqual({ ...kjv, description: '', footnotes: true, versification: 'english' });
+      expect(registry.list('netbible').map(version => version.code)).toEqual(['NET', 'NASB']);
+      expect(registry.list().map(version => version.code)).toEqual(['NET', 'NASB', 'KJV']);
+    });
+
+    it('should let an added version replace a built-in one', () => {
+      const registry = createVersionRegistry([{ code: 'NET', name: 'NET from disk', source: 'osis' }]);
+
+      expect(registry.get('NET')!.source).toBe('osis');
+      expect(registry.list()).toHaveLength(2);
+    });
+  });
+
+  describe('applyVersionDefaults', () => {
+    it('should take the source and input from the registry entry', () => {
+      expect(applyVersionDefaults({ ...base, version: 'KJV', versions: [kjv] }))
+        .toMatchObject({ source: 'usfm', input: './kjv' });
+    });
+
+    it('should keep explicit settings', () => {
+      expect(applyVersionDefaults({ ...base, version: 'KJV', input: './other', versions: [kjv] }).input).toBe('./other');
+      expect(applyVersionDefaults({ ...base, version: 'KJV', source: 'osis', versions: [kjv] }).input).toBeUndefined();
+    });
+  });
+
+  describe('resolveVersion', () => {
+    it('should only resolve registered versions for netbible.org', () => {
+      expect(resolveVersion(base)!.name).toBe('New English Translation');
+      expect(resolveVersion({ ...base, version: 'KJV' })).toBeUndefined();
+    });
+
+    it('should describe unregistered versions read from disk', () => {
+      expect(resolveVersion({ ...base, version: 'WEB', source: 'usx' }))
+        .toMatchObject({ code: 'WEB', name: 'WEB', source: 'usx', footnotes: true, copyright: '' });
+    });
+  });
+});
\ No newline at end of file
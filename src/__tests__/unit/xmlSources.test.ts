@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the USX and OSIS import sources
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ParsedBook } from '../../types/index.js';
+import { createOsisParser } from '../../services/osis.js';
+import { createUsxParser } from '../../services/usx.js';
+import { OsisSource } from '../../sources/osis.js';
+import { UsxSource } from '../../sources/usx.js';
+import { validateSourceConfig } from '../../sources/index.js';
+import { sectionVerses } from '../../utils/chapters.js';
+import { parseOsisRef } from '../../utils/references.js';
+
+const usxPath = path.join(__dirname, '../fixtures/sample-john.usx');
+const osisPath = path.join(__dirname, '../fixtures/sample-john.osis.xml');
+
+// Both fixtures hold the same passages as sample-john.usfm
+function describeParsedJohn(load: () => ParsedBook): void {
+  const parsed = load();
+  const chapter3 = parsed.chapters.find(chapter => chapter.chapter === 3)!;
+
+  it('should read chapters and section titles', () => {
+    expect(parsed.book).toBe('John');
+    expect(parsed.chapters.map(chapter => chapter.chapter)).toEqual([1, 3]);
+    expect(parsed.chapters[0].sections[0].title).toBe('The Word Became Flesh');
+    expect(chapter3.sections.map(section => section.title)).toEqual(['You Must Be Born Again', 'The Testimony of John']);
+  });
+
+  it('should keep verse text without notes or markup', () => {
+    const verse16 = sectionVerses(chapter3.sections[0])[0];
+
+    expect(verse16.id).toBe('JHN_3_16');
+    expect(verse16.text).toBe('For God so loved the world, that he gave his one and only Son, that whoever believes in him should not perish, but have eternal life.');
+    expect(sectionVerses(chapter3.sections[0])[1].number).toBe(17);
+    expect(sectionVerses(chapter3.sections[1])[0].text).toBe('He must increase, but I must decrease.”');
+  });
+
+  it('should attach notes to their verse without the origin reference', () => {
+    expect(parsed.footnotes[3][0]).toMatchObject({ id: 'note_1', number: 1, content: 'Or, only born Son' });
+    expect(sectionVerses(chapter3.sections[0])[0].footnoteNumbers).toEqual([1]);
+    expect(sectionVerses(chapter3.sections[1])[0].footnoteNumbers).toEqual([2]);
+  });
+
+  it('should read cross-references from tagged and plain notes', () => {
+    expect(parsed.footnotes[1][0].type).toBe('cr');
+    expect(parsed.footnotes[1][0].verseReferences).toEqual([
+      { book: 'Genesis', chapter: 1, verse: 1, endVerse: undefined, display: 'Gen 1:1' },
+      { book: '1 John', chapter: 1, verse: 1, endVerse: undefined, display: '1 John 1:1' }
+    ]);
+    expect(parsed.footnotes[3][1].verseReferences.map(ref => ref.book)).toEqual(['Isaiah', 'Malachi']);
+  });
+}
+
+describe('XML Import', () => {
+  describe('UsxParser', () => {
+    describeParsedJohn(() => createUsxParser().parseBook(fs.readFileSync(usxPath, 'utf8'))!);
+
+    it('should type notes by their style', () => {
+      const parsed = createUsxParser().parseBook(fs.readFileSync(usxPath, 'utf8'))!;
+      expect(parsed.footnotes[3].map(note => note.type)).toEqual(['fn', 'cr']);
+    });
+
+    it('should ignore files without a known book code', () => {
+      expect(createUsxParser().parseBook('<usx><book code="XYZ"/></usx>')).toBeNull();
+    });
+  });
+
+  describe('OsisParser', () => {
+    const books = createOsisParser().parseBooks(fs.readFileSync(osisPath, 'utf8'));
+
+    describeParsedJohn(() => books[0]);
+
+    it('should read every book in the file', () => {
+      expect(books.map(book => book.book)).toEqual(['John', 'Jude']);
+      expect(sectionVerses(books[1].chapters[0].sections[0])[0].text).toBe('Jude, a servant of Jesus Christ, and brother of James.');
+    });
+
+    it('should map OSIS note types onto note codes', () => {
+      expect(books[0].footnotes[3].map(note => note.type)).toEqual(['tn', 'cr']);
+    });
+
+    it('should parse osisRef ranges', () => {
+      expect(parseOsisRef('Bible:Rom.8.28-Rom.8.30')).toMatchObject({ book: 'Romans', chapter: 8, verse: 28, endVerse: 30 });
+      expect(parseOsisRef('Ps.23')).toMatchObject({ book: 'Psalms', chapter: 23, verse: undefined });
+      expect(parseOsisRef('Unknown.1.1')).toBeNull();
+    });
+  });
+
+  describe('local sources', () => {
+    let inputDir: string;
+
+    beforeEach(async () => {
+      inputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bible2md-xml-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(inputDir);
+    });
+
+    it('should read a single OSIS file', async () => {
+      const source = new OsisSource(osisPath);
+
+      expect(await source.listBooks()).toEqual(['John', 'Jude']);
+      expect((await source.fetchChapters('John', [3]))[0].chapter).toBe(3);
+      expect(await source.fetchFootnotes('John', 1)).toHaveLength(1);
+    });
+
+    it('should read every USX file in a directory', async () => {
+      await fs.copy(usxPath, path.join(inputDir, '44JHNWEB.usx'));
+      await fs.writeFile(path.join(inputDir, 'notes.txt'), 'not scripture');
+      const source = new UsxSource(inputDir);
+
+      expect(await source.listBooks()).toEqual(['John']);
+      await expect(source.fetchChapters('Romans', [1])).rejects.toThrow(`Romans is not in ${inputDir}`);
+    });
+
+    it('should fail when a directory holds no matching files', async () => {
+      await expect(new UsxSource(inputDir).listBooks()).rejects.toThrow('No .usx or .xml files found');
+    });
+
+    it('should require an existing --input path', () => {
+      expect(validateSourceConfig({ source: 'osis' } as any)).toContain('--input');
+      expect(validateSourceConfig({ source: 'usx', input: path.join(inputDir, 'missing') } as any)).toContain('does not exist');
+      expect(validateSourceConfig({ source: 'usx', input: usxPath } as any)).toBeNull();
+    });
+  });
+});
\ No newline at end of file
@@ -1,5 +1,186 @@
+import { Command, CommanderError, InvalidArgumentError, Option } from 'commander';
 import { setupCommand } from './commands/setup.js';
+import { convertCommand } from './commands/convert.js';
+import { cacheInspectCommand, cachePruneCommand } from './commands/cache.js';
+import {
+  APP_VERSION,
+  BIBLE_VERSIONS,
+  CONFIG_FILE_NAMES,
+  DEFAULT_SETUP_CONFIG,
+  EXIT_CODES,
+  FORMAT_MODES,
+  GRAPH_FORMATS,
+  NOTE_LAYOUTS,
+  NOTE_TYPES,
+  OUTPUT_STYLES,
+  PARALLEL_LAYOUTS,
+  STRONGS_MODES,
+  SOURCE_NAMES,
+  SPEED_MODES
+} from './utils/constants.js';
+import { parseBookSelection } from './utils/selection.js';
 
-export async function runCLI(): Promise<void> {
-  await setupCommand();
+export function createProgram(): Command {
+  const program = new Command();
+
+  program
+    .name('bible2md')
+    .description('Convert Bible text to Markdown files')
+    .version(APP_VERSION)
+    // Keep program options (like --version) from swallowing subcommand flags
+    .enablePositionalOptions()
+    .showHelpAfterError('(run "bible2md --help" for usage)')
+    .exitOverride()
+    .action(async () => {
+      // The wizard is only the default for interactive shells
+      if (!process.stdin.isTTY) {
+        program.outputHelp({ error: true });
+        process.exitCode = EXIT_CODES.USAGE;
+        return;
+      }
+      await setupCommand();
+    });
+
+  program
+    .command('convert')
+    .description('Convert the Bible to Markdown without prompts')
+    .addOption(
+      new Option('-v, --version <code>', `Bible version (${BIBLE_VERSIONS.map(v => v.code).join(', ')}, a "versions" entry from the config file, or any code for local sources)`)
+        .default(DEFAULT_SETUP_CONFIG.version)
+    )
+    .addOption(
+      new Option('-s, --style <style>', 'Output style')
+        .choices(OUTPUT_STYLES.map(s => s.code))
+        .default(DEFAULT_SETUP_CONFIG.style)
+    )
+    .addOption(
+      new Option('-o, --out <dir>', 'Output directory')
+        .default(DEFAULT_SETUP_CONFIG.outputDir)
+    )
+    .addOption(
+      new Option('--speed <mode>', 'Download speed')
+        .choices(SPEED_MODES)
+        .default(DEFAULT_SETUP_CONFIG.speedMode)
+    )
+    .addOption(
+      new Option('-b, --books <selection...>', 'Books, chapter ranges or testaments, e.g. "John 3-5" NT (default: whole Bible)')
+        .argParser(collectSelection)
+    )
+    .addOption(
+      new Option('-c, --config <path>', `Config file (default: nearest ${CONFIG_FILE_NAMES.join(' or ')})`)
+    )
+    .addOption(new Option('--source <name>', 'Where to read the text from (default: netbible)').choices(SOURCE_NAMES))
+    .addOption(new Option('-i, --input <path>', 'File or directory read by local sources'))
+    .addOption(new Option('--cache-dir <dir>', 'Response cache directory (default: ~/.cache/bible2md)'))
+    .addOption(new Option('--no-cache', 'Always download and never store responses'))
+    .addOption(new Option('--offline', 'Only use cached responses and fail on a cache miss'))
+    .addOption(new Option('--retries <n>', 'Retries per failed request (default: 3)').argParser(parseCount(0)))
+    .addOption(new Option('--rps <n>', 'Maximum requests per second (default: set by --speed)').argParser(parsePositive))
+    .addOption(new Option('--max-in-flight <n>', 'Maximum concurrent requests (default: set by --speed)').argParser(parseCount(1)))
+    .addOption(
+      new Option('--parallel [layout]', 'Show the companion translation (NASB for NET, NET for NASB) beside each verse')
+        .choices(PARALLEL_LAYOUTS)
+        .preset('table')
+    )
+    .addOption(
+      new Option('--strongs [mode]', "Show the Strong's number of each word in the NET text")
+        .choices(STRONGS_MODES)
+        .preset('links')
+    )
+    .addOption(new Option('--concordance', "Write a note for each Strong's number listing every verse it occurs in"))
+    .addOption(new Option('--backlinks', 'List under each chapter the notes of other chapters that refer to its verses'))
+    .addOption(new Option('--graph <formats...>', 'Export the cross-references of the notes by verse, chapter and book, e.g. graphml json').choices(GRAPH_FORMATS))
+    .addOption(new Option('--note-types <types...>', 'Only keep these kinds of footnotes, e.g. sn tn').choices(Object.keys(NOTE_TYPES)))
+    .addOption(new Option('--note-layout <layout>', 'Show footnotes as footnotes, callouts after each verse, or one collapsed section').choices(NOTE_LAYOUTS))
+    .addOption(new Option('--original-language <mode>', 'Mark Greek and Hebrew words in footnotes with a lang span (html), italics (markdown) or not at all (off)').choices(FORMAT_MODES))
+    .addOption(new Option('--strict', "Fail when a chapter's verses are missing, duplicated or out of order"))
+    .addOption(new Option('--resume', 'Skip chapters already completed by a previous run'))
+    .addOption(new Option('--force', 'Ignore the manifest and regenerate everything').conflicts('resume'))
+    .action(convertCommand);
+
+  const cache = program
+    .command('cache')
+    .description('Inspect or prune the response cache');
+
+  cache
+    .command('inspect')
+    .description('Show what is in the response cache')
+    .addOption(new Option('--cache-dir <dir>', 'Response cache directory'))
+    .action(cacheInspectCommand);
+
+  cache
+    .command('prune')
+    .description('Delete cached responses')
+    .addOption(new Option('--older-than <days>', 'Only delete entries older than this many days').argParser(parseDays))
+    .addOption(new Option('--all', 'Delete every entry').conflicts('olderThan'))
+    .addOption(new Option('--cache-dir <dir>', 'Response cache directory'))
+    .action(cachePruneCommand);
+
+  program
+    .command('setup')
+    .description('Run the interactive setup wizard')
+    .action(setupCommand);
+
+  // Apply the same error handling to every subcommand
+  const applyExitOverride = (command: Command): void => {
+    command.commands.forEach(subcommand => {
+      subcommand.exitOverride();
+      applyExitOverride(subcommand);
+    });
+  };
+  applyExitOverride(program);
+
+  return program;
+}
+
+function parseCount(min: number): (value: string) => number {
+  return (value) => {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < min) {
+      throw new InvalidArgumentError(`Expected a whole number of at least ${min}`);
+    }
+    return count;
+  };
+}
+
+function parsePositive(value: string): number {
+  const number = Number(value);
+  if (!(number > 0)) {
+    throw new InvalidArgumentError('Expected a number greater than 0');
+  }
+  return number;
+}
+
+function parseDays(value: string): number {
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new InvalidArgumentError('Expected a number of days');
+  }
+  return days;
+}
+
+function collectSelection(value: string, previous: string[] = []): string[] {
+  // Validate each spec up front so typos are reported as usage errors
+  try {
+    parseBookSelection([value]);
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+  return [...previous, value];
+}
+
+export async function runCLI(argv: string[] = process.argv): Promise<number> {
+  const program = createProgram();
+
+  try {
+    await program.parseAsync(argv);
+  } catch (error) {
+    if (error instanceof CommanderError) {
+      // --help and --version surface as errors with a zero exit code
+      return error.exitCode === 0 ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE;
+    }
+    throw error;
+  }
+
+  return typeof process.exitCode === 'number' ? process.exitCode : EXIT_CODES.SUCCESS;
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import chalk from 'chalk';
+import { logger } from '../utils/logger.js';
+import { createTable } from '../utils/ui.js';
+import { EXIT_CODES } from '../utils/constants.js';
+import { ConfigError, loadProjectConfig } from '../services/config.js';
+import { createResponseCache, defaultCacheDir } from '../services/cache.js';
+
+export interface CacheCommandOptions {
+  cacheDir?: string;
+}
+
+export interface CachePruneOptions extends CacheCommandOptions {
+  olderThan?: number;
+  all?: boolean;
+}
+
+export async function cacheInspectCommand(options: CacheCommandOptions): Promise<void> {
+  const cacheDir = await resolveCacheDir(options);
+  if (!cacheDir) return;
+
+  const stats = await createResponseCache(cacheDir).inspect();
+
+  console.log(chalk.white.bold('Response cache'));
+  console.log(`Location    ${chalk.cyan(cacheDir)}`);
+  console.log(`Entries     ${chalk.yellow(stats.entries)}`);
+  console.log(`Size        ${chalk.yellow(`${(stats.size / 1024 / 1024).toFixed(1)}MB`)}`);
+
+  if (stats.entries === 0) {
+    return;
+  }
+
+  console.log(`Oldest      ${chalk.dim(stats.oldest ?? 'unknown')}`);
+  console.log(`Newest      ${chalk.dim(stats.newest ?? 'unknown')}`);
+  console.log();
+  console.log(createTable(
+    ['Kind', 'Entries'],
+    Object.entries(stats.byKind).map(([kind, count]) => [kind, String(count)])
+  ));
+  console.log(createTable(
+    ['Translation', 'Entries'],
+    Object.entries(stats.byTranslation).map(([translation, count]) => [translation, String(count)])
+  ));
+}
+
+export async function cachePruneCommand(options: CachePruneOptions): Promise<void> {
+  if (options.olderThan === undefined && !options.all) {
+    logger.error('Specify --older-than <days> or --all');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  const cacheDir = await resolveCacheDir(options);
+  if (!cacheDir) return;
+
+  const { removed, size } = await createResponseCache(cacheDir).prune({
+    olderThanDays: options.olderThan,
+    all: options.all
+  });
+
+  logger.success(`Removed ${removed} cached responses (${(size / 1024 / 1024).toFixed(1)}MB) from ${cacheDir}`);
+}
+
+// Same precedence as conversions: flag, then project config, then the default
+async function resolveCacheDir(options: CacheCommandOptions): Promise<string | null> {
+  if (options.cacheDir) {
+    return options.cacheDir;
+  }
+
+  try {
+    const projectConfig = await loadProjectConfig();
+    return projectConfig?.config.cacheDir ?? defaultCacheDir();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.error(error.message);
+      process.exitCode = EXIT_CODES.USAGE;
+      return null;
+    }
+    throw error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,125 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { BibleVersion, FormatMode, GraphFormat, NoteLayout, OutputStyle, ParallelLayout, ProjectConfig, SetupConfig, SourceName, SpeedMode, StrongsMode } from '../types/index.js';
+import { EXIT_CODES } from '../utils/constants.js';
+import { logger } from '../utils/logger.js';
+import { createConverter } from '../services/converter.js';
+import { ConfigError, loadProjectConfig, mergeSetupConfig } from '../services/config.js';
+import { applyVersionDefaults } from '../services/versions.js';
+import { validateSourceConfig } from '../sources/index.js';
+
+export interface ConvertCommandOptions {
+  version?: string;
+  style?: string;
+  out?: string;
+  speed?: string;
+  books?: string[];
+  config?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  offline?: boolean;
+  retries?: number;
+  rps?: number;
+  maxInFlight?: number;
+  source?: string;
+  input?: string;
+  parallel?: string;
+  strongs?: string;
+  concordance?: boolean;
+  backlinks?: boolean;
+  graph?: string[];
+  strict?: boolean;
+  noteTypes?: string[];
+  noteLayout?: string;
+  originalLanguage?: string;
+  resume?: boolean;
+  force?: boolean;
+}
+
+export async function convertCommand(options: ConvertCommandOptions, command: Command): Promise<void> {
+  let config: SetupConfig;
+
+  try {
+    const projectConfig = await loadProjectConfig(options.config);
+    if (projectConfig) {
+      logger.info(`Using config from ${projectConfig.filePath}`);
+    }
+
+    config = applyVersionDefaults({
+      ...mergeSetupConfig(projectConfig?.config, buildFlagConfig(explicitOptions(options, command))),
+      resume: options.resume,
+      force: options.force
+    });
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.error(error.message);
+      process.exitCode = EXIT_CODES.USAGE;
+      return;
+    }
+    throw error;
+  }
+
+  const sourceProblem = validateSourceConfig(config);
+  if (sourceProblem) {
+    logger.error(sourceProblem);
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  await executeConversion(config);
+}
+
+export function buildFlagConfig(options: ConvertCommandOptions): ProjectConfig {
+  return {
+    version: options.version as BibleVersion | undefined,
+    style: options.style as OutputStyle | undefined,
+    outputDir: options.out,
+    speedMode: options.speed as SpeedMode | undefined,
+    books: options.books,
+    cache: options.cache,
+    cacheDir: options.cacheDir,
+    offline: options.offline,
+    retries: options.retries,
+    requestsPerSecond: options.rps,
+    maxInFlight: options.maxInFlight,
+    source: options.source as SourceName | undefined,
+    input: options.input,
+    parallel: options.parallel as ParallelLayout | undefined,
+    strongs: options.strongs as StrongsMode | undefined,
+    concordance: options.concordance,
+    backlinks: options.backlinks,
+    graph: options.graph as GraphFormat[] | undefined,
+    strict: options.strict,
+    noteTypes: options.noteTypes,
+    noteLayout: options.noteLayout as NoteLayout | undefined,
+    originalLanguage: options.originalLanguage as FormatMode | undefined
+  };
+}
+
+// Drop commander defaults so they don't override values from a config file
+function explicitOptions(options: ConvertCommandOptions, command: Command): ConvertCommandOptions {
+  return Object.fromEntries(
+    Object.entries(options).filter(([key]) => command.getOptionValueSource(key) !== 'default')
+  );
+}
+
+export async function executeConversion(config: SetupConfig): Promise<void> {
+  console.log();
+
+  try {
+    const converter = createConverter(config);
+    await converter.convert();
+
+    // Clean success message
+    console.log();
+    console.log(chalk.green('✓ Bible converted successfully'));
+    console.log(chalk.dim(`Files saved to: ${config.outputDir}`));
+    console.log(chalk.dim(`Version: ${config.version} | Style: ${config.style}`));
+
+  } catch (error) {
+    console.log();
+    console.log(chalk.red('✗ Conversion failed'));
+    console.log(chalk.dim(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = EXIT_CODES.FAILURE;
+  }
+}
\ No newline at end of file
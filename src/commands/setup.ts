@@ -3,9 +3,14 @@ import chalk from 'chalk';
 import figlet from 'figlet';
 import gradient from 'gradient-string';
 import { logger } from '../utils/logger.js';
-import { BIBLE_VERSIONS, OUTPUT_STYLES, DEFAULT_OUTPUT_DIR, BIBLE_BOOKS } from '../utils/constants.js';
-import { BibleVersion, OutputStyle, SetupConfig } from '../types/index.js';
-import { createConverter } from '../services/converter.js';
+import path from 'path';
+import { OUTPUT_STYLES, CONFIG_FILE_NAMES, EXIT_CODES } from '../utils/constants.js';
+import { findBookByName } from '../utils/books.js';
+import { BibleVersion, OutputStyle, ProjectConfig, SetupConfig, SpeedMode } from '../types/index.js';
+import { parseBookSelection, countSelectedChapters } from '../utils/selection.js';
+import { loadProjectConfig, mergeSetupConfig, saveProjectConfig } from '../services/config.js';
+import { applyVersionDefaults, createVersionRegistry } from '../services/versions.js';
+import { executeConversion } from './convert.js';
 
 export async function setupCommand(): Promise<void> {
   console.clear();
@@ -31,18 +36,29 @@ export async function setupCommand(): Promise<void> {
       return;
     }
     logger.error('Setup failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = EXIT_CODES.FAILURE;
   }
 }
 
 async function runSetupFlow(): Promise<SetupConfig | null> {
+  // Prefill answers from the project config file when there is one
+  const projectConfig = await loadProjectConfig();
+  const savedAnswers: ProjectConfig = projectConfig?.config ?? {};
+  const defaults = mergeSetupConfig(savedAnswers);
+  
+  if (projectConfig) {
+    console.log(chalk.dim(`Defaults loaded from ${path.relative(process.cwd(), projectConfig.filePath) || projectConfig.filePath}\n`));
+  }
+
   // Version selection with minimal styling
   const version = await select({
     message: chalk.bold('Bible version'),
-    choices: BIBLE_VERSIONS.map(v => ({
+    choices: createVersionRegistry(savedAnswers.versions).list().map(v => ({
       name: `${v.code} ${chalk.dim('·')} ${v.name}`,
       value: v.code,
       description: chalk.dim(v.description)
     })),
+    default: defaults.version,
     theme: {
       prefix: chalk.cyan('→'),
       style: {
@@ -60,6 +76,7 @@ async function runSetupFlow(): Promise<SetupConfig | null> {
       name: `${s.name} ${chalk.dim('·')} ${s.description}`,
       value: s.code
     })),
+    default: defaults.style,
     theme: {
       prefix: chalk.cyan('→'),
       style: {
@@ -72,7 +89,7 @@ async function runSetupFlow(): Promise<SetupConfig | null> {
   // Output directory
   const outputDir = await input({
     message: chalk.bold('Output directory'),
-    default: DEFAULT_OUTPUT_DIR,
+    default: defaults.outputDir,
     theme: {
       prefix: chalk.cyan('→'),
       style: {
@@ -104,6 +121,7 @@ async function runSetupFlow(): Promise<SetupConfig | null> {
         description: chalk.dim('~3-4 minutes - Includes all footnotes and cross-references')
       }
     ],
+    default: defaults.speedMode,
     theme: {
       prefix: chalk.cyan('→'),
       style: {
@@ -112,10 +130,12 @@ async function runSetupFlow(): Promise<SetupConfig | null> {
         description: chalk.gray
       }
     }
-  }) as 'fast' | 'balanced';
+  }) as SpeedMode;
 
-  // Calculate scope
-  const totalChapters = BIBLE_BOOKS.reduce((sum, book) => sum + book.chapters, 0);
+  // Calculate scope (a saved book selection narrows it)
+  const selection = parseBookSelection(defaults.books);
+  const newTestamentBooks = selection.filter(book => findBookByName(book.name)?.testament === 'New').length;
+  const totalChapters = countSelectedChapters(selection);
   const estimatedSize = Math.round((totalChapters * 2.5) / 1024); // Rough estimate: 2.5KB per chapter
   const estimatedTime = speedMode === 'fast' 
     ? Math.round(totalChapters * 0.06 / 60)  // Fast mode: ~0.06 seconds per chapter
@@ -132,12 +152,12 @@ async function runSetupFlow(): Promise<SetupConfig | null> {
   console.log(`Output      ${chalk.cyan(outputDir)}`);
   console.log();
   console.log(chalk.white.bold('Scope'));
-  console.log(`Books       ${chalk.yellow(BIBLE_BOOKS.length)} (Old Testament: 39, New Testament: 27)`);
+  console.log(`Books       ${chalk.yellow(selection.length)} (Old Testament: ${selection.length - newTestamentBooks}, New Testament: ${newTestamentBooks})`);
   console.log(`Chapters    ${chalk.yellow(totalChapters)}`);
   console.log(`Est. Size   ${chalk.yellow(`~${estimatedSize}MB`)}`);
   console.log(`Est. Time   ${chalk.yellow(`~${estimatedTime} minutes`)}`);
   
-  if (speedMode === 'fast' && style === 'study') {
+  if (speedMode === 'fast' && (style === 'study' || style === 'reading')) {
     console.log();
     console.log(chalk.yellow('⚠  Note: Fast mode will skip footnotes to maximize speed'));
   }
@@ -160,31 +180,40 @@ async function runSetupFlow(): Promise<SetupConfig | null> {
     return null;
   }
 
-  return {
-    version,
-    style,
-    outputDir,
-    speedMode
-  };
+  const answers: ProjectConfig = { ...savedAnswers, version, style, outputDir, speedMode };
+  await offerToSaveAnswers(answers, savedAnswers, projectConfig?.filePath);
+
+  return applyVersionDefaults(mergeSetupConfig(answers));
 }
 
-async function executeConversion(config: SetupConfig): Promise<void> {
-  console.log();
-  
-  try {
-    const converter = createConverter(config);
-    await converter.convert();
-    
-    // Clean success message
-    console.log();
-    console.log(chalk.green('✓ Bible converted successfully'));
-    console.log(chalk.dim(`Files saved to: ${config.outputDir}`));
-    console.log(chalk.dim(`Version: ${config.version} | Style: ${config.style}`));
-    
-  } catch (error) {
-    console.log();
-    console.log(chalk.red('✗ Conversion failed'));
-    console.log(chalk.dim(error instanceof Error ? error.message : 'Unknown error'));
-    process.exit(1);
+async function offerToSaveAnswers(
+  answers: ProjectConfig,
+  savedAnswers: ProjectConfig,
+  existingPath?: string
+): Promise<void> {
+  const keys = Object.keys(answers) as (keyof ProjectConfig)[];
+  const unchanged = existingPath && keys.every(key => JSON.stringify(answers[key]) === JSON.stringify(savedAnswers[key]));
+  if (unchanged) {
+    return;
+  }
+
+  const filePath = existingPath ?? path.resolve(CONFIG_FILE_NAMES[0]);
+  const displayPath = path.relative(process.cwd(), filePath) || filePath;
+
+  const shouldSave = await confirm({
+    message: chalk.bold(existingPath ? `Update ${displayPath} with these answers?` : `Save these answers to ${displayPath}?`),
+    default: false,
+    theme: {
+      prefix: chalk.cyan('→'),
+      style: {
+        answer: chalk.cyan,
+        message: chalk.white
+      }
+    }
+  });
+
+  if (shouldSave) {
+    await saveProjectConfig(answers, filePath);
+    console.log(chalk.dim(`Saved to ${displayPath}`));
   }
 }
\ No newline at end of file
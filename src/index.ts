@@ -1,4 +1,4 @@
 #!/usr/bin/env node
 import { runCLI } from './cli.js';
 
-runCLI();
\ No newline at end of file
+process.exitCode = await runCLI();
\ No newline at end of file
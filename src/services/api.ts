@@ -1,16 +1,40 @@
 import axios, { AxiosInstance } from 'axios';
-import { BibleVersion, ApiResponse } from '../types/index.js';
+import { ApiResponse, CacheKey, RateLimitOptions, RetryOptions } from '../types/index.js';
+import { APP_VERSION, DEFAULT_RETRY_OPTIONS, SPEED_PRESETS } from '../utils/constants.js';
+import { computeRetryDelay, isRetryableStatus, parseRetryAfter, sleep } from '../utils/retry.js';
+import { ResponseCache, CacheMissError } from './cache.js';
+import { RateLimiter, createRateLimiter } from './rateLimiter.js';
+
+export interface ApiServiceOptions {
+  cache?: ResponseCache;
+  offline?: boolean;
+  retry?: Partial<RetryOptions>;
+  rateLimit?: RateLimitOptions;
+}
 
 export class BibleApiService {
   private client: AxiosInstance;
   private textBaseUrl = 'https://netbible.org/resource/netTexts';
   private notesBaseUrl = 'https://netbible.org/resource/netNotes';
+  private cache?: ResponseCache;
+  private offline: boolean;
+  private retry: RetryOptions;
+  private limiter: RateLimiter;
 
-  constructor() {
+  constructor(options: ApiServiceOptions = {}) {
+    if (options.offline && !options.cache) {
+      throw new Error('Offline mode requires the response cache');
+    }
+    
+    this.cache = options.cache;
+    this.offline = options.offline ?? false;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    // One limiter for every request this service makes, text and notes alike
+    this.limiter = createRateLimiter(options.rateLimit ?? SPEED_PRESETS.balanced);
     this.client = axios.create({
       timeout: 15000, // Increased timeout for batch requests
       headers: {
-        'User-Agent': 'bible2md/1.0.0',
+        'User-Agent': `bible2md/${APP_VERSION}`,
         'Connection': 'keep-alive'
       },
       // Connection pooling for better performance
@@ -19,79 +43,121 @@ export class BibleApiService {
     });
   }
 
+  // netTexts always returns two translations; the one asked for comes back as
+  // bible1 and the companion as bible2
   async fetchChapters(
     book: string,
     chapters: number[],
-    version: BibleVersion = 'NET'
+    bible1Translation: string,
+    bible2Translation: string
   ): Promise<ApiResponse> {
     const chapterParam = chapters.map(ch => `${book}%20${ch}`).join(';');
-    const bible1Translation = version === 'NET' ? 'net_strongs2' : 'nasb';
-    const bible2Translation = version === 'NET' ? 'nasb' : 'net_strongs2';
     
     const url = `${this.textBaseUrl}/${chapterParam}?bible1Translation=${bible1Translation}&bible2Translation=${bible2Translation}`;
+    const cacheKey: CacheKey = {
+      kind: 'text',
+      book,
+      chapters,
+      translation: `${bible1Translation}+${bible2Translation}`
+    };
     
-    try {
-      const response = await this.client.get<ApiResponse>(url);
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`API request failed: ${error.message}`);
-      }
-      throw error;
-    }
+    return this.cachedGet(cacheKey, () => this.request<ApiResponse>(url, 'API request failed'));
   }
 
   async fetchFootnotes(
     book: string,
     chapter: number,
-    version: BibleVersion = 'NET'
+    translation: string
   ): Promise<string> {
-    if (version !== 'NET') {
-      return ''; // Footnotes only available for NET version
-    }
-    
-    const url = `${this.notesBaseUrl}/${book}%20${chapter}?bible1Translation=net_strongs2`;
+    const url = `${this.notesBaseUrl}/${book}%20${chapter}?bible1Translation=${translation}`;
+    const cacheKey: CacheKey = {
+      kind: 'notes',
+      book,
+      chapters: [chapter],
+      translation
+    };
     
-    try {
-      const response = await this.client.get<string>(url);
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Footnotes API request failed: ${error.message}`);
-      }
-      throw error;
-    }
+    return this.cachedGet(cacheKey, () => this.request<string>(url, 'Footnotes API request failed'));
   }
 
   async fetchSingleChapter(
     book: string,
     chapter: number,
-    version: BibleVersion = 'NET'
+    bible1Translation: string,
+    bible2Translation: string
   ): Promise<ApiResponse> {
-    return this.fetchChapters(book, [chapter], version);
+    return this.fetchChapters(book, [chapter], bible1Translation, bible2Translation);
   }
 
   async fetchBookChapters(
     book: string,
-    totalChapters: number,
-    version: BibleVersion = 'NET',
+    chapters: number[],
+    bible1Translation: string,
+    bible2Translation: string,
     batchSize: number = 20
   ): Promise<ApiResponse[]> {
-    // Create all batch requests concurrently for better performance
-    const batchPromises: Promise<ApiResponse>[] = [];
+    // Only the selected chapters are requested, batched by fixed windows (1-20,
+    // 21-40, ...) so a whole-book run always makes the same requests and reuses
+    // its cache entries
+    const windows = new Map<number, number[]>();
+    [...new Set(chapters)].sort((a, b) => a - b).forEach(chapter => {
+      const start = Math.floor((chapter - 1) / batchSize) * batchSize + 1;
+      windows.set(start, [...windows.get(start) ?? [], chapter]);
+    });
     
-    for (let i = 1; i <= totalChapters; i += batchSize) {
-      const chapterBatch = Array.from(
-        { length: Math.min(batchSize, totalChapters - i + 1) },
-        (_, idx) => i + idx
-      );
-      
-      batchPromises.push(this.fetchChapters(book, chapterBatch, version));
-    }
+    // Create all batch requests concurrently for better performance
+    const batchPromises: Promise<ApiResponse>[] = [...windows.values()]
+      .map(chapterBatch => this.fetchChapters(book, chapterBatch, bible1Translation, bible2Translation));
     
     // Execute all batches concurrently
     return Promise.all(batchPromises);
   }
+
+  private async request<T>(url: string, failureMessage: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.limiter.schedule(() => this.client.get<T>(url));
+        return response.data;
+      } catch (error) {
+        if (!axios.isAxiosError(error)) {
+          throw error;
+        }
+        
+        const status = error.response?.status;
+        if (attempt >= this.retry.retries || !isRetryableStatus(status)) {
+          const attempts = attempt + 1;
+          throw new Error(`${failureMessage}: ${error.message}${attempts > 1 ? ` (after ${attempts} attempts)` : ''}`);
+        }
+        
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+        await sleep(computeRetryDelay(attempt, this.retry, retryAfter));
+      }
+    }
+  }
+
+  private async cachedGet<T>(key: CacheKey, fetcher: () => Promise<T>): Promise<T> {
+    if (this.cache) {
+      const cached = await this.cache.get<T>(key);
+      if (cached !== null) {
+        return cached;
+      }
+      if (this.offline) {
+        throw new CacheMissError(key);
+      }
+    }
+    
+    const data = await fetcher();
+    
+    if (this.cache) {
+      await this.cache.set(key, data);
+    }
+    
+    return data;
+  }
+}
+
+export function createBibleApi(options: ApiServiceOptions = {}): BibleApiService {
+  return new BibleApiService(options);
 }
 
 export const bibleApi = new BibleApiService();
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { Backlink, VerseAnchor } from '../types/index.js';
+import { formatReference, referenceLink, verseHeading } from '../utils/references.js';
+
+const SECTION_START = '\n---\n\n## Referenced By\n';
+
+// "Referenced by" sections: for each verse of a chapter, the notes of other
+// chapters that point at it, so the links can be followed both ways
+export class BacklinksGenerator {
+  generateSection(book: string, chapter: number, backlinks: Backlink[], anchor: VerseAnchor = verseHeading): string {
+    if (backlinks.length === 0) return '';
+
+    let markdown = `${SECTION_START}\n`;
+    groupByVerse(backlinks).forEach(([toVerse, sources]) => {
+      const label = toVerse === undefined ? `${book} ${chapter}` : `${chapter}:${toVerse}`;
+      markdown += `- **${label}**: ${sources.map(source => sourceLink(source, anchor)).join('; ')}\n`;
+    });
+
+    return markdown;
+  }
+
+  // Replaces the section an earlier run added, which is always last
+  applySection(markdown: string, section: string): string {
+    const start = markdown.indexOf(SECTION_START);
+    const content = (start === -1 ? markdown : markdown.slice(0, start)).trimEnd();
+    return section ? `${content}\n${section.trimEnd()}` : content;
+  }
+}
+
+function sourceLink({ book, chapter, verse }: Backlink, anchor: VerseAnchor): string {
+  const reference = { book, chapter, verse };
+  const display = formatReference(reference);
+  return referenceLink({ ...reference, display }, display, anchor);
+}
+
+// The whole chapter first, then verse by verse
+function groupByVerse(backlinks: Backlink[]): [number | undefined, Backlink[]][] {
+  const verses = new Map<number | undefined, Backlink[]>();
+  backlinks.forEach(backlink => {
+    verses.set(backlink.toVerse, [...verses.get(backlink.toVerse) ?? [], backlink]);
+  });
+  return [...verses].sort(([a], [b]) => (a ?? 0) - (b ?? 0));
+}
+
+export function createBacklinksGenerator(): BacklinksGenerator {
+  return new BacklinksGenerator();
+}
\ No newline at end of file
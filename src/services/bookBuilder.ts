@@ -0,0 +1,218 @@
+import { BibleBook, InlineFormat, ParsedBook, ParsedChapter, ParsedFootnote, ParsedParagraph, ParsedSection, ParsedVerse, TextSegment } from '../types/index.js';
+import { chapterVerses, sectionVerses } from '../utils/chapters.js';
+import { buildVerseLines, hasMarkup, linesText, normalizeSegments, segmentsText } from '../utils/formatting.js';
+
+// The text of a verse as appended, one entry per line; prose has a null indent
+interface RawLine {
+  indent: number | null;
+  segments: TextSegment[];
+}
+
+// Collects chapters, sections, verses and notes in document order for the
+// local file parsers, which all walk their input front to back
+export class ParsedBookBuilder {
+  private result: ParsedBook;
+  private idPrefix: string;
+  private chapter: ParsedChapter | null = null;
+  private section: ParsedSection | null = null;
+  private paragraph: ParsedParagraph | null = null;
+  private verse: ParsedVerse | null = null;
+  private heading: { title?: string } | null = null; // Where appendTitle goes
+  private formats: InlineFormat[] = [];
+  private indent: number | null = null;
+  private rawLines = new Map<ParsedVerse, RawLine[]>();
+
+  constructor(book: BibleBook) {
+    this.result = { book: book.name, chapters: [], footnotes: {} };
+    this.idPrefix = book.usfm;
+  }
+
+  get book(): string {
+    return this.result.book;
+  }
+
+  get inVerse(): boolean {
+    return this.verse !== null;
+  }
+
+  startChapter(number: number): void {
+    this.section = { paragraphs: [] };
+    this.chapter = { book: this.result.book, chapter: number, sections: [this.section] };
+    this.result.chapters.push(this.chapter);
+    this.paragraph = null;
+    this.verse = null;
+    this.heading = null;
+    this.formats = [];
+    this.indent = null;
+  }
+
+  startSection(): void {
+    if (!this.chapter) return;
+
+    // Back-to-back headings (a major heading, then a section heading) share one section
+    if (!this.section || sectionVerses(this.section).length > 0) {
+      this.section = { paragraphs: [] };
+      this.chapter.sections.push(this.section);
+    }
+    this.section.title = '';
+    this.heading = this.section;
+    this.paragraph = null;
+  }
+
+  // Descriptive titles (\d, <title type="psalm">) belong to the verse they
+  // appear in. Before the first verse they title the chapter; after the last
+  // one they can only start a section.
+  startDescriptiveTitle(): void {
+    if (!this.chapter) return;
+
+    if (this.verse) {
+      this.heading = this.verse;
+    } else if (chapterVerses(this.chapter.sections).length === 0) {
+      this.heading = this.chapter;
+    } else {
+      this.startSection();
+    }
+  }
+
+  appendTitle(text: string): void {
+    if (this.heading) {
+      this.heading.title = (this.heading.title ?? '') + text;
+    }
+  }
+
+  startVerse(number: number): void {
+    if (!this.chapter || !this.section) return;
+
+    if (!this.paragraph) {
+      this.paragraph = { verses: [] };
+      this.section.paragraphs.push(this.paragraph);
+    }
+    this.verse = {
+      number,
+      text: '',
+      id: `${this.idPrefix}_${this.chapter.chapter}_${number}`,
+      footnoteNumbers: []
+    };
+    this.paragraph.verses.push(this.verse);
+    this.rawLines.set(this.verse, [{ indent: this.indent, segments: [] }]);
+  }
+
+  endVerse(): void {
+    this.verse = null;
+  }
+
+  appendText(text: string): void {
+    if (this.verse) {
+      this.verse.text += text;
+
+      const lines = this.rawLines.get(this.verse)!;
+      lines[lines.length - 1].segments.push({ text, formats: [...new Set(this.formats)] });
+    }
+  }
+
+  // Poetry (\q2, <l level="2">) starts a line that may hold the start of a
+  // verse. Lines after prose start a new paragraph; after other lines they
+  // continue the stanza.
+  startPoetryLine(indent: number): void {
+    if (this.indent === null) {
+      this.paragraph = null;
+    }
+    this.indent = indent;
+    this.startLine();
+  }
+
+  // A prose paragraph ends any poetry before it
+  startParagraph(): void {
+    this.paragraph = null;
+    if (this.indent === null) return;
+
+    this.indent = null;
+    this.startLine();
+  }
+
+  // A stanza break (\b, <lg>) starts a new paragraph and stays in poetry
+  startStanza(): void {
+    this.paragraph = null;
+  }
+
+  private startLine(): void {
+    if (this.verse) {
+      this.rawLines.get(this.verse)!.push({ indent: this.indent, segments: [] });
+    }
+  }
+
+  // Formatting may span several appends, and verses (\wj ... \wj*)
+  startFormat(format: InlineFormat): void {
+    this.formats.push(format);
+  }
+
+  endFormat(format: InlineFormat): void {
+    const index = this.formats.lastIndexOf(format);
+    if (index >= 0) {
+      this.formats.splice(index, 1);
+    }
+  }
+
+  // Notes are numbered per chapter and attached to the verse they appear in
+  addNote(note: Omit<ParsedFootnote, 'id' | 'number'>): void {
+    if (!this.chapter || !this.verse) return;
+
+    const footnotes = this.result.footnotes[this.chapter.chapter] ??= [];
+    const number = footnotes.length + 1;
+    footnotes.push({ id: `note_${number}`, number, ...note, content: cleanText(note.content), verse: this.verse.number });
+    this.verse.footnoteNumbers!.push(number);
+  }
+
+  build(): ParsedBook {
+    this.result.chapters.forEach(chapter => {
+      chapter.title = cleanText(chapter.title ?? '') || undefined;
+      chapter.sections = chapter.sections
+        .map(section => ({
+          title: cleanText(section.title ?? '') || undefined,
+          paragraphs: section.paragraphs
+            .map(paragraph => ({
+              verses: paragraph.verses
+                .map(verse => this.finishVerse(verse))
+                .filter(verse => verse.text)
+            }))
+            .filter(paragraph => paragraph.verses.length > 0)
+        }))
+        .filter(section => section.paragraphs.length > 0);
+    });
+
+    return this.result;
+  }
+
+  private finishVerse(verse: ParsedVerse): ParsedVerse {
+    const title = cleanText(verse.title ?? '');
+    const text = cleanText(verse.text);
+    const raw = this.rawLines.get(verse) ?? [];
+    const segments = normalizeSegments(raw.flatMap(line => line.segments));
+
+    // Prose that follows poetry within a verse becomes an unindented line. A
+    // poetry marker with no text of the verse after it doesn't count.
+    const poetry = raw.some(line => line.indent !== null && cleanText(segmentsText(line.segments)));
+    const lines = buildVerseLines(raw.map(line => ({ indent: line.indent ?? 0, segments: line.segments })));
+
+    // A verse that is only a title keeps it as its text
+    if (!text && title) {
+      return { ...verse, text: title, title: undefined };
+    }
+
+    return {
+      ...verse,
+      text,
+      title: title || undefined,
+      ...(hasMarkup(segments) && segmentsText(segments) === text && { segments }),
+      ...(poetry && linesText(lines) === text && { lines })
+    };
+  }
+}
+
+export function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function createBookBuilder(book: BibleBook): ParsedBookBuilder {
+  return new ParsedBookBuilder(book);
+}
\ No newline at end of file
@@ -0,0 +1,155 @@
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { createHash } from 'crypto';
+import { CacheKey, CacheStats } from '../types/index.js';
+import { CACHE_DIR_NAME } from '../utils/constants.js';
+
+interface CacheEntry<T> {
+  key: CacheKey;
+  storedAt: string;
+  data: T;
+}
+
+export class CacheMissError extends Error {
+  readonly key: CacheKey;
+
+  constructor(key: CacheKey) {
+    super(`Offline mode: no cached ${key.kind} for ${key.book} ${key.chapters.join(',')} (${key.translation})`);
+    this.name = 'CacheMissError';
+    this.key = key;
+  }
+}
+
+export class ResponseCache {
+  readonly cacheDir: string;
+
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+  }
+
+  // Entries are addressed by a hash of the request they answer
+  static hashKey(key: CacheKey): string {
+    const canonical = JSON.stringify([key.kind, key.book, key.chapters, key.translation]);
+    return createHash('sha256').update(canonical).digest('hex');
+  }
+
+  async get<T>(key: CacheKey): Promise<T | null> {
+    const filePath = this.entryPath(key);
+
+    try {
+      const entry: CacheEntry<T> = await fs.readJson(filePath);
+      return entry.data;
+    } catch {
+      // Missing or unreadable entries are treated as misses
+      return null;
+    }
+  }
+
+  async set<T>(key: CacheKey, data: T): Promise<void> {
+    const filePath = this.entryPath(key);
+    const entry: CacheEntry<T> = { key, storedAt: new Date().toISOString(), data };
+
+    // Write to a temp file first so concurrent readers never see partial JSON
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJson(tempPath, entry);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async inspect(): Promise<CacheStats> {
+    const stats: CacheStats = {
+      entries: 0,
+      size: 0,
+      byKind: {},
+      byTranslation: {}
+    };
+
+    for (const { filePath, size } of await this.listEntries()) {
+      const entry = await this.readEntryHeader(filePath);
+      stats.entries++;
+      stats.size += size;
+
+      if (!entry) continue;
+
+      stats.byKind[entry.key.kind] = (stats.byKind[entry.key.kind] ?? 0) + 1;
+      stats.byTranslation[entry.key.translation] = (stats.byTranslation[entry.key.translation] ?? 0) + 1;
+
+      if (!stats.oldest || entry.storedAt < stats.oldest) stats.oldest = entry.storedAt;
+      if (!stats.newest || entry.storedAt > stats.newest) stats.newest = entry.storedAt;
+    }
+
+    return stats;
+  }
+
+  async prune(options: { olderThanDays?: number; all?: boolean }): Promise<{ removed: number; size: number }> {
+    const cutoff = options.olderThanDays !== undefined
+      ? Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000
+      : null;
+    let removed = 0;
+    let size = 0;
+
+    for (const entry of await this.listEntries()) {
+      if (!options.all) {
+        const header = await this.readEntryHeader(entry.filePath);
+        // Unreadable entries are always pruned
+        if (header && (cutoff === null || Date.parse(header.storedAt) >= cutoff)) {
+          continue;
+        }
+      }
+
+      await fs.remove(entry.filePath);
+      removed++;
+      size += entry.size;
+    }
+
+    return { removed, size };
+  }
+
+  private entryPath(key: CacheKey): string {
+    const hash = ResponseCache.hashKey(key);
+    return path.join(this.cacheDir, key.kind, hash.slice(0, 2), `${hash}.json`);
+  }
+
+  private async listEntries(): Promise<{ filePath: string; size: number }[]> {
+    const entries: { filePath: string; size: number }[] = [];
+
+    if (!await fs.pathExists(this.cacheDir)) {
+      return entries;
+    }
+
+    const processDirectory = async (dir: string): Promise<void> => {
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          await processDirectory(fullPath);
+        } else if (entry.isFile() && entry.name.endsWith('.json')) {
+          const stat = await fs.stat(fullPath);
+          entries.push({ filePath: fullPath, size: stat.size });
+        }
+      }
+    };
+
+    await processDirectory(this.cacheDir);
+    return entries;
+  }
+
+  private async readEntryHeader(filePath: string): Promise<Omit<CacheEntry<unknown>, 'data'> | null> {
+    try {
+      const { key, storedAt } = await fs.readJson(filePath);
+      return key && storedAt ? { key, storedAt } : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function defaultCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, CACHE_DIR_NAME);
+}
+
+export function createResponseCache(cacheDir: string = defaultCacheDir()): ResponseCache {
+  return new ResponseCache(cacheDir);
+}
\ No newline at end of file
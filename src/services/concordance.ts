@@ -0,0 +1,101 @@
+import { StrongsOccurrence, VerseAnchor } from '../types/index.js';
+import { CONCORDANCE_INDEX_NAME } from '../utils/constants.js';
+import { referenceLink, verseHeading } from '../utils/references.js';
+
+// Word-study notes for the Strong's numbers of the NET text: one note per
+// number listing every verse it occurs in, and an index linking them all
+export class ConcordanceGenerator {
+  generateNote(number: string, occurrences: StrongsOccurrence[], anchor: VerseAnchor = verseHeading): string {
+    let markdown = `# ${number}\n\n`;
+    markdown += `${LANGUAGES[number[0]]} · ${countLabel(occurrences.length)} · [[${CONCORDANCE_INDEX_NAME}]]\n\n`;
+
+    markdown += `## Translated As\n\n`;
+    countBy(occurrences, occurrence => occurrence.word)
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([word, count]) => {
+        markdown += `- ${word} (${count})\n`;
+      });
+    markdown += '\n';
+
+    const books = countBy(occurrences, occurrence => occurrence.book);
+    markdown += `## Occurrences by Book\n\n`;
+    markdown += `| Book | Occurrences |\n|------|------------:|\n`;
+    books.forEach(([book, count]) => {
+      markdown += `| [[${book}]] | ${count} |\n`;
+    });
+
+    books.forEach(([book]) => {
+      markdown += `\n## ${book}\n\n`;
+      groupByVerse(occurrences.filter(occurrence => occurrence.book === book)).forEach(words => {
+        const { chapter, verse } = words[0];
+        markdown += `- ${verseLink(book, chapter, verse, anchor)} ${words.map(word => word.word).join(', ')}\n`;
+      });
+    });
+
+    return markdown;
+  }
+
+  generateIndex(concordance: Map<string, StrongsOccurrence[]>): string {
+    let markdown = `# ${CONCORDANCE_INDEX_NAME}\n\n`;
+
+    const numbers = [...concordance.keys()].sort(compareNumbers);
+    Object.entries(LANGUAGES).forEach(([prefix, language]) => {
+      const inLanguage = numbers.filter(number => number.startsWith(prefix));
+      if (inLanguage.length === 0) return;
+
+      markdown += `## ${language}\n\n`;
+      inLanguage.forEach(number => {
+        markdown += `- [[${number}]] (${concordance.get(number)!.length})\n`;
+      });
+      markdown += '\n';
+    });
+
+    return markdown;
+  }
+}
+
+const LANGUAGES: { [prefix: string]: string } = {
+  H: 'Hebrew',
+  G: 'Greek'
+};
+
+function countLabel(count: number): string {
+  return count === 1 ? '1 occurrence' : `${count} occurrences`;
+}
+
+// Counts in order of first appearance
+function countBy(occurrences: StrongsOccurrence[], key: (occurrence: StrongsOccurrence) => string): [string, number][] {
+  const counts = new Map<string, number>();
+  occurrences.forEach(occurrence => {
+    counts.set(key(occurrence), (counts.get(key(occurrence)) ?? 0) + 1);
+  });
+  return [...counts];
+}
+
+// A number tagged on several words of one verse is listed once
+function groupByVerse(occurrences: StrongsOccurrence[]): StrongsOccurrence[][] {
+  const verses = new Map<string, StrongsOccurrence[]>();
+  occurrences.forEach(occurrence => {
+    const key = `${occurrence.chapter}:${occurrence.verse}`;
+    verses.set(key, [...verses.get(key) ?? [], occurrence]);
+  });
+  return [...verses.values()];
+}
+
+// H7225 before G25, then by number: G25 before G106
+function compareNumbers(a: string, b: string): number {
+  const order = Object.keys(LANGUAGES);
+  return order.indexOf(a[0]) - order.indexOf(b[0]) || parseInt(a.slice(1)) - parseInt(b.slice(1));
+}
+
+// Verse headings read well as bare links ("John 3 > 16"); paragraph blocks
+// and whole chapters get the verse as their label
+function verseLink(book: string, chapter: number, verse: number, anchor: VerseAnchor): string {
+  const target = anchor(book, chapter, verse);
+  if (target === `${verse}`) return `[[${book} ${chapter}#${verse}]]`;
+  return referenceLink({ book, chapter, verse, display: `${book} ${chapter}:${verse}` }, undefined, anchor);
+}
+
+export function createConcordanceGenerator(): ConcordanceGenerator {
+  return new ConcordanceGenerator();
+}
\ No newline at end of file
@@ -0,0 +1,400 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ProjectConfig, SetupConfig, VersionDefinition } from '../types/index.js';
+import {
+  CONFIG_FILE_NAMES,
+  DEFAULT_SETUP_CONFIG,
+  FORMAT_MODES,
+  GRAPH_FORMATS,
+  INLINE_FORMATS,
+  NOTE_LAYOUTS,
+  NOTE_TYPES,
+  OUTPUT_STYLES,
+  PARALLEL_LAYOUTS,
+  STRONGS_MODES,
+  SOURCE_NAMES,
+  SPEED_MODES,
+  VERSIFICATIONS
+} from '../utils/constants.js';
+import { parseBookSelection } from '../utils/selection.js';
+import { createVersionRegistry } from './versions.js';
+
+type FieldValidator = (value: unknown, config: { [key: string]: unknown }) => string | null;
+
+export class ConfigError extends Error {
+  readonly filePath: string;
+  readonly issues: string[];
+
+  constructor(filePath: string, issues: string[]) {
+    super(`Invalid config in ${filePath}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.filePath = filePath;
+    this.issues = issues;
+  }
+}
+
+export interface LoadedProjectConfig {
+  filePath: string;
+  config: ProjectConfig;
+}
+
+// Every key a config file may contain, in the order they are saved
+const CONFIG_SCHEMA: { [K in keyof ProjectConfig]-?: FieldValidator } = {
+  version: versionCode,
+  style: oneOf(OUTPUT_STYLES.map(s => s.code)),
+  outputDir: nonEmptyString,
+  speedMode: oneOf(SPEED_MODES),
+  books: bookSelection,
+  cache: isBoolean,
+  cacheDir: nonEmptyString,
+  offline: isBoolean,
+  retries: integerAtLeast(0),
+  requestsPerSecond: positiveNumber,
+  maxInFlight: integerAtLeast(1),
+  source: oneOf(SOURCE_NAMES),
+  input: nonEmptyString,
+  versions: versionDefinitions,
+  parallel: oneOf(PARALLEL_LAYOUTS),
+  strongs: oneOf(STRONGS_MODES),
+  concordance: isBoolean,
+  backlinks: isBoolean,
+  graph: nonEmptyListOf(GRAPH_FORMATS),
+  strict: isBoolean,
+  noteTypes: nonEmptyListOf(Object.keys(NOTE_TYPES)),
+  noteLayout: oneOf(NOTE_LAYOUTS),
+  originalLanguage: oneOf(FORMAT_MODES),
+  formatting: formattingOptions
+};
+
+// Paths in a config file are relative to the file, not to where bible2md runs
+const PATH_KEYS = ['outputDir', 'input', 'cacheDir'] as const;
+
+// Keys that editors and tooling add but bible2md ignores
+const IGNORED_KEYS = ['$schema'];
+
+export function findConfigFile(startDir: string = process.cwd()): string | null {
+  let dir = path.resolve(startDir);
+
+  // Walk up towards the filesystem root, nearest config wins
+  while (true) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, fileName);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+export async function loadProjectConfig(explicitPath?: string): Promise<LoadedProjectConfig | null> {
+  const filePath = explicitPath ? path.resolve(explicitPath) : findConfigFile();
+
+  if (!filePath) {
+    return null;
+  }
+  if (!await fs.pathExists(filePath)) {
+    throw new ConfigError(filePath, ['File does not exist']);
+  }
+
+  const raw = await fs.readFile(filePath, 'utf8');
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError(filePath, [`Not valid JSON (${error instanceof Error ? error.message : 'parse error'})`]);
+  }
+
+  const config = validateProjectConfig(parsed, filePath);
+  return { filePath, config: mapConfigPaths(config, value => path.resolve(path.dirname(filePath), value)) };
+}
+
+export function validateProjectConfig(value: unknown, filePath: string): ProjectConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ConfigError(filePath, ['Expected a JSON object at the top level']);
+  }
+
+  const issues: string[] = [];
+  const config: { [key: string]: unknown } = {};
+  const knownKeys = Object.keys(CONFIG_SCHEMA);
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (IGNORED_KEYS.includes(key)) continue;
+
+    const validate = CONFIG_SCHEMA[key as keyof ProjectConfig];
+    if (!validate) {
+      const suggestion = suggestKey(key, knownKeys);
+      issues.push(`Unknown key "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}. Allowed keys: ${knownKeys.join(', ')}`);
+      continue;
+    }
+
+    const problem = validate(fieldValue, value as { [key: string]: unknown });
+    if (problem) {
+      issues.push(`"${key}" ${problem}`);
+      continue;
+    }
+
+    config[key] = fieldValue;
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(filePath, issues);
+  }
+
+  return config as ProjectConfig;
+}
+
+export async function saveProjectConfig(answers: ProjectConfig, filePath: string): Promise<void> {
+  // Saved relative to the file, so the project can move as a whole
+  const config = mapConfigPaths(answers, value => path.relative(path.dirname(filePath), path.resolve(value)) || '.');
+
+  // Write keys in schema order so saved files diff cleanly
+  const ordered: { [key: string]: unknown } = {};
+  for (const key of Object.keys(CONFIG_SCHEMA) as (keyof ProjectConfig)[]) {
+    if (config[key] !== undefined) {
+      ordered[key] = config[key];
+    }
+  }
+
+  await fs.writeFile(filePath, JSON.stringify(ordered, null, 2) + '\n', 'utf8');
+}
+
+// Precedence: built-in defaults < config file < command-line flags
+export function mergeSetupConfig(fileConfig: ProjectConfig = {}, flags: ProjectConfig = {}): SetupConfig {
+  return {
+    ...DEFAULT_SETUP_CONFIG,
+    ...definedOnly(fileConfig),
+    ...definedOnly(flags)
+  };
+}
+
+function mapConfigPaths(config: ProjectConfig, map: (value: string) => string): ProjectConfig {
+  const mapped: ProjectConfig = { ...config };
+  PATH_KEYS.forEach(key => {
+    if (mapped[key] !== undefined) {
+      mapped[key] = map(mapped[key]!);
+    }
+  });
+  if (mapped.versions) {
+    mapped.versions = mapped.versions.map(version => version.input === undefined ? version : { ...version, input: map(version.input) });
+  }
+  return mapped;
+}
+
+function definedOnly(config: ProjectConfig): ProjectConfig {
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as ProjectConfig;
+}
+
+function oneOf(allowed: readonly string[]): FieldValidator {
+  return (value) => {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      return `must be one of ${allowed.map(a => `"${a}"`).join(', ')} (got ${JSON.stringify(value)})`;
+    }
+    return null;
+  };
+}
+
+// Without a local source the version has to be registered, either built in or
+// under "versions" in the same file; local sources name their own translation
+function versionCode(value: unknown, config: { [key: string]: unknown }): string | null {
+  if (config.source === undefined || config.source === 'netbible') {
+    const definitions = versionDefinitions(config.versions) ? [] : config.versions as VersionDefinition[];
+    const source = config.source as 'netbible' | undefined;
+    return oneOf(createVersionRegistry(definitions).list(source).map(v => v.code))(value, config);
+  }
+  return nonEmptyString(value);
+}
+
+const VERSION_FIELDS: { [K in keyof VersionDefinition]-?: FieldValidator } = {
+  code: nonEmptyString,
+  name: nonEmptyString,
+  source: oneOf(SOURCE_NAMES),
+  description: isString,
+  translation: nonEmptyString,
+  input: nonEmptyString,
+  footnotes: isBoolean,
+  copyright: isString,
+  versification: oneOf(VERSIFICATIONS)
+};
+
+const REQUIRED_VERSION_FIELDS = ['code', 'name', 'source'];
+
+function versionDefinitions(value: unknown): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    return `must be an array of version entries (got ${JSON.stringify(value)})`;
+  }
+
+  for (const [index, entry] of value.entries()) {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return `[${index}] must be an object such as { "code": "KJV", "name": "King James Version", "source": "osis" }`;
+    }
+
+    const missing = REQUIRED_VERSION_FIELDS.find(field => !(field in entry));
+    if (missing) {
+      return `[${index}] is missing "${missing}"`;
+    }
+    // netbible.org is asked for a translation by name, such as "net_strongs2"
+    if (entry.source === 'netbible' && !('translation' in entry)) {
+      return `[${index}] is missing "translation", which netbible.org entries need`;
+    }
+
+    for (const [field, fieldValue] of Object.entries(entry)) {
+      const validate = VERSION_FIELDS[field as keyof VersionDefinition];
+      if (!validate) {
+        return `[${index}] has unknown key "${field}". Allowed keys: ${Object.keys(VERSION_FIELDS).join(', ')}`;
+      }
+
+      const problem = validate(fieldValue, entry);
+      if (problem) {
+        return `[${index}].${field} ${problem}`;
+      }
+    }
+  }
+  return null;
+}
+
+function nonEmptyListOf(allowed: readonly string[]): FieldValidator {
+  return (value) => {
+    if (!Array.isArray(value) || value.length === 0 || value.some(item => !allowed.includes(item))) {
+      return `must be a non-empty array of ${allowed.map(a => `"${a}"`).join(', ')} (got ${JSON.stringify(value)})`;
+    }
+    return null;
+  };
+}
+
+// { "study": { "wordsOfJesus": "off" }, "classes": { "wordsOfJesus": "red" } }
+function formattingOptions(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `must be an object with per-style settings and "classes" (got ${JSON.stringify(value)})`;
+  }
+
+  const styles = OUTPUT_STYLES.map(s => s.code);
+  for (const [key, settings] of Object.entries(value)) {
+    if (key !== 'classes' && !styles.includes(key as typeof styles[number])) {
+      return `has unknown key "${key}". Allowed keys: ${[...styles, 'classes'].join(', ')}`;
+    }
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      return `.${key} must be an object keyed by ${INLINE_FORMATS.join(', ')}`;
+    }
+
+    for (const [format, setting] of Object.entries(settings)) {
+      if (!INLINE_FORMATS.includes(format as typeof INLINE_FORMATS[number])) {
+        return `.${key} has unknown key "${format}". Allowed keys: ${INLINE_FORMATS.join(', ')}`;
+      }
+
+      // Markdown has no red text, so words of Jesus are either a span or plain
+      const problem = key === 'classes'
+        ? cssClassName(setting)
+        : oneOf(format === 'wordsOfJesus' ? ['off', 'html'] : FORMAT_MODES)(setting, {});
+      if (problem) {
+        return `.${key}.${format} ${problem}`;
+      }
+    }
+  }
+  return null;
+}
+
+function cssClassName(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^[A-Za-z_][\w-]*$/.test(value)) {
+    return `must be a CSS class name (got ${JSON.stringify(value)})`;
+  }
+  return null;
+}
+
+function isString(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return `must be a string (got ${JSON.stringify(value)})`;
+  }
+  return null;
+}
+
+function nonEmptyString(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return `must be a non-empty string (got ${JSON.stringify(value)})`;
+  }
+  return null;
+}
+
+function integerAtLeast(min: number): FieldValidator {
+  return (value) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      return `must be a whole number of at least ${min} (got ${JSON.stringify(value)})`;
+    }
+    return null;
+  };
+}
+
+function positiveNumber(value: unknown): string | null {
+  if (typeof value !== 'number' || !(value > 0)) {
+    return `must be a number greater than 0 (got ${JSON.stringify(value)})`;
+  }
+  return null;
+}
+
+function isBoolean(value: unknown): string | null {
+  if (typeof value !== 'boolean') {
+    return `must be true or false (got ${JSON.stringify(value)})`;
+  }
+  return null;
+}
+
+function bookSelection(value: unknown): string | null {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    return `must be an array of strings such as ["John 3-5", "NT"] (got ${JSON.stringify(value)})`;
+  }
+
+  try {
+    parseBookSelection(value);
+  } catch (error) {
+    return `is not a valid selection: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return null;
+}
+
+function suggestKey(key: string, knownKeys: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const known of knownKeys) {
+    const distance = editDistance(key.toLowerCase(), known.toLowerCase());
+    if (distance < bestDistance) {
+      best = known;
+      bestDistance = distance;
+    }
+  }
+
+  // Only suggest keys that are plausibly a typo
+  return bestDistance <= Math.max(3, Math.floor(key.length / 3)) ? best : null;
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
\ No newline at end of file
@@ -1,26 +1,49 @@
-import { SetupConfig, ParsedChapter } from '../types/index.js';
-import { bibleApi } from './api.js';
-import { createParser } from './parser.js';
+import { createHash } from 'crypto';
+import { SetupConfig, ParsedChapter, ParsedFootnote, BookSelection, BibleSource, ChapterValidation, Versification, VerseAnchor } from '../types/index.js';
+import { CacheMissError } from './cache.js';
 import { createMarkdownGenerator } from './markdown.js';
 import { createFileWriter } from './fileWriter.js';
-import { createFootnotesParser } from './footnotes.js';
+import { ManifestStore, createManifestStore } from './manifest.js';
+import { StrongsStore, createStrongsStore } from './strongsStore.js';
+import { createConcordanceGenerator } from './concordance.js';
+import { createBacklinksGenerator } from './backlinks.js';
+import { createGraphExporter } from './graph.js';
+import { matchesNoteTypes } from './footnotes.js';
+import { resolveVersion } from './versions.js';
+import { createBibleSource } from '../sources/index.js';
 import { logger } from '../utils/logger.js';
-import { BIBLE_BOOKS } from '../utils/constants.js';
+import { GRAPH_LEVELS } from '../utils/constants.js';
+import { parseBookSelection, countSelectedChapters } from '../utils/selection.js';
+import { resolveFormatClasses, resolveFormatting } from '../utils/formatting.js';
+import { attachFootnotes, chapterStrongs, chapterTitle, chapterVerses, noteReferences, paragraphBlockIds } from '../utils/chapters.js';
+import { verseHeading } from '../utils/references.js';
+import { absentChapter, describeProblems, hasProblems, validateChapter } from '../utils/validation.js';
+import { findBookByName } from '../utils/books.js';
 import chalk from 'chalk';
 
 export class BibleConverter {
   private config: SetupConfig;
-  private parser: any;
   private markdownGenerator: any;
   private fileWriter: any;
-  private footnotesParser: any;
+  private source: BibleSource;
+  private versification: Versification;
+  private manifest: ManifestStore;
+  private strongsStore: StrongsStore;
+  private processedChapters = 0;
+  private skippedChapters = 0;
+  private failedBooks: { book: string; error: string }[] = [];
+  private footnoteFailures: { chapter: string; error: string }[] = [];
+  private validations: ChapterValidation[] = [];
 
   constructor(config: SetupConfig) {
     this.config = config;
-    this.parser = createParser(config.version);
-    this.markdownGenerator = createMarkdownGenerator(config.style, config.version);
-    this.fileWriter = createFileWriter(config.outputDir, config.version, config.style);
-    this.footnotesParser = createFootnotesParser();
+    this.source = createBibleSource(config);
+    this.markdownGenerator = createMarkdownGenerator(config.style, config.version, config.parallel, config.formatting, config.strongs, config.noteTypes, config.noteLayout, config.originalLanguage);
+    const version = resolveVersion(config)!;
+    this.versification = version.versification;
+    this.fileWriter = createFileWriter(config.outputDir, version, config.style);
+    this.manifest = createManifestStore(this.fileWriter.getVersionDir(), this.outputFingerprint());
+    this.strongsStore = createStrongsStore(this.fileWriter.getVersionDir());
   }
 
   async convert(): Promise<void> {
@@ -32,69 +55,29 @@ export class BibleConverter {
     await this.fileWriter.initialize();
     logger.succeedSpinner('Output directory ready');
     
-    // Calculate total chapters for progress tracking
-    const totalChapters = BIBLE_BOOKS.reduce((sum, book) => sum + book.chapters, 0);
-    const allBooks: { name: string; chapters: number[] }[] = [];
-    let processedChapters = 0;
+    await this.loadManifest();
     
-    logger.logStageStart(`Converting entire Bible (${BIBLE_BOOKS.length} books, ${totalChapters} chapters)`);
+    this.processedChapters = 0;
+    this.skippedChapters = 0;
+    this.failedBooks = [];
+    this.footnoteFailures = [];
+    this.validations = [];
+    
+    // Resolve the requested books and chapters (the whole Bible when none are given)
+    const selection = await this.resolveSelection();
+    const totalChapters = countSelectedChapters(selection);
+    
+    // Described by what was resolved: a local source may hold only part of the Bible
+    logger.logStageStart(`Converting ${selection.length} books (${totalChapters} chapters)`);
     logger.startProgress('Processing all books', totalChapters);
     
     try {
-      // Use different concurrency based on speed mode
-      const speedMode = this.config.speedMode || 'balanced';
-      const BOOK_CONCURRENCY = speedMode === 'fast' ? 20 : 10; // More aggressive in fast mode
-      const bookBatches = [];
-      
-      for (let i = 0; i < BIBLE_BOOKS.length; i += BOOK_CONCURRENCY) {
-        bookBatches.push(BIBLE_BOOKS.slice(i, i + BOOK_CONCURRENCY));
-      }
+      // Every request goes through the API's shared rate limiter, so all books
+      // can be scheduled at once without flooding the server
+      await Promise.all(selection.map(book => this.convertBook(book)));
       
-      for (const bookBatch of bookBatches) {
-        // Process books in this batch concurrently
-        const bookPromises = bookBatch.map(async (bookInfo) => {
-          const { name: bookName, chapters: totalBookChapters } = bookInfo;
-          
-          // Fetch all chapters for this book with increased batch size
-          const apiResponses = await bibleApi.fetchBookChapters(
-            bookName, 
-            totalBookChapters, 
-            this.config.version, 
-            20 // Increased to 20 for maximum speed
-          );
-          
-          // Parse all chapters from all batches
-          const bookParsedChapters: ParsedChapter[] = [];
-          
-          for (const apiResponse of apiResponses) {
-            const htmlContent = this.parser.getVersionHtml(apiResponse.bible1, apiResponse.bible2);
-            const parsedChapters = this.parser.parseChapters(htmlContent);
-            bookParsedChapters.push(...parsedChapters);
-          }
-          
-          // Process chapters with parallel footnote fetching
-          const processedBookChapters = await this.processChaptersInParallel(
-            bookParsedChapters, 
-            bookName
-          );
-          
-          // Update progress
-          processedChapters += processedBookChapters.length;
-          logger.updateProgress(processedChapters, `Completed ${bookName} (${processedBookChapters.length} chapters)`);
-          
-          // Generate book index
-          const bookIndexMarkdown = this.markdownGenerator.generateBookIndex(bookName, processedBookChapters);
-          await this.fileWriter.writeBookIndex(bookName, bookIndexMarkdown);
-          
-          // Track book for master index
-          const chapterNumbers = processedBookChapters.map(chapter => chapter.chapter);
-          return { name: bookName, chapters: chapterNumbers };
-        });
-        
-        // Wait for this batch to complete
-        const completedBooks = await Promise.all(bookPromises);
-        allBooks.push(...completedBooks);
-      }
+      // Indexes cover every chapter in the manifest, including earlier runs
+      const allBooks = this.manifest.completedBooks();
       
       // Generate master index and README
       logger.logStageStart('Generating index files');
@@ -106,8 +89,35 @@ export class BibleConverter {
       logger.updateSpinner('Creating README');
       await this.fileWriter.writeReadme();
       
+      if (this.config.concordance) {
+        logger.updateSpinner("Creating Strong's concordance");
+        await this.writeConcordance();
+      }
+      
+      if (this.config.backlinks) {
+        logger.updateSpinner('Adding backlinks');
+        await this.writeBacklinks();
+      }
+      
+      if (this.config.graph?.length) {
+        logger.updateSpinner('Exporting the cross-reference graph');
+        await this.writeGraphs();
+      }
+      
       logger.succeedSpinner('Index files created');
       
+      this.reportFootnoteFailures();
+      const problems = await this.reportValidation();
+      
+      if (this.failedBooks.length > 0) {
+        const details = this.failedBooks.map(failure => `${failure.book}: ${failure.error}`).join('\n');
+        throw new Error(`${this.failedBooks.length} of ${selection.length} books failed to convert\n${details}`);
+      }
+      
+      if (this.config.strict && problems > 0) {
+        throw new Error(`${problems} chapters failed validation against the ${this.versification} versification`);
+      }
+      
       // Calculate final stats
       const endTime = Date.now();
       const duration = endTime - startTime;
@@ -122,68 +132,301 @@ export class BibleConverter {
       // Final success message
       console.log(chalk.green.bold('🎉 Complete Bible conversion successful!'));
       console.log(chalk.dim(`📁 Output: ${this.config.outputDir}`));
-      console.log(chalk.dim(`📊 ${BIBLE_BOOKS.length} books, ${totalChapters} chapters processed`));
+      console.log(chalk.dim(`📊 ${allBooks.length} books, ${this.processedChapters} chapters processed`));
+      if (this.skippedChapters > 0) {
+        console.log(chalk.dim(`⏭️  ${this.skippedChapters} chapters already complete and skipped`));
+      }
       console.log(chalk.dim(`⏱️  Total time: ${(duration / 1000 / 60).toFixed(1)} minutes`));
-      
+    
     } catch (error) {
       logger.failSpinner('Conversion failed');
       throw error;
     }
   }
 
-  private async processChaptersInParallel(
-    chapters: ParsedChapter[], 
-    _bookName: string
-  ): Promise<ParsedChapter[]> {
-    const speedMode = this.config.speedMode || 'balanced';
-    const CHAPTER_CONCURRENCY = speedMode === 'fast' ? 50 : 20; // Very aggressive in fast mode
-    const results: ParsedChapter[] = [];
-    
-    // Create batches of chapters
-    const chapterBatches = [];
-    for (let i = 0; i < chapters.length; i += CHAPTER_CONCURRENCY) {
-      chapterBatches.push(chapters.slice(i, i + CHAPTER_CONCURRENCY));
-    }
+  private async convertBook(bookInfo: BookSelection): Promise<void> {
+    const { name: bookName, chapters: selectedChapters } = bookInfo;
     
-    // Process each batch
-    for (const chapterBatch of chapterBatches) {
-      const chapterPromises = chapterBatch.map(async (chapter) => {
-        // Fetch footnotes in parallel if needed (skip in fast mode for speed)
-        let footnotes: any[] = [];
+    try {
+      const pendingChapters = await this.pendingChapters(bookName, selectedChapters);
+      const skipped = selectedChapters.length - pendingChapters.length;
+      this.skippedChapters += skipped;
+      
+      let processedBookChapters: ParsedChapter[] = [];
+      
+      if (pendingChapters.length > 0) {
+        // The source only returns chapters that were asked for, so indexes
+        // never link to missing files
+        const bookParsedChapters = await this.source.fetchChapters(bookName, pendingChapters);
         
-        const skipFootnotes = this.config.speedMode === 'fast';
+        // Chapters asked for but never returned are reported, not silently dropped
+        const returned = new Set(bookParsedChapters.map(chapter => chapter.chapter));
+        pendingChapters
+          .filter(chapter => !returned.has(chapter))
+          .forEach(chapter => this.validations.push(absentChapter(bookName, chapter, this.versification)));
         
-        if (this.config.style === 'study' && this.config.version === 'NET' && !skipFootnotes) {
-          try {
-            const footnotesHtml = await bibleApi.fetchFootnotes(
-              chapter.book, 
-              chapter.chapter, 
-              this.config.version
-            );
-            footnotes = this.footnotesParser.parseFootnotes(footnotesHtml);
-          } catch (error) {
-            // Silently continue without footnotes on error
+        // Process chapters with parallel footnote fetching
+        processedBookChapters = await this.processChaptersInParallel(bookParsedChapters);
+      }
+      
+      // Update progress
+      this.processedChapters += processedBookChapters.length + skipped;
+      logger.updateProgress(this.processedChapters, `Completed ${bookName} (${processedBookChapters.length} chapters)`);
+      
+      // Generate book index from everything completed so far, not just this run
+      const bookChapters = this.manifest.chaptersForBook(bookName);
+      if (bookChapters.length > 0) {
+        const bookIndexMarkdown = this.markdownGenerator.generateBookIndex(bookName, bookChapters);
+        await this.fileWriter.writeBookIndex(bookName, bookIndexMarkdown);
+      }
+    } catch (error) {
+      // Offline cache misses fail the whole run; anything else only loses this book
+      if (error instanceof CacheMissError) {
+        throw error;
+      }
+      
+      this.failedBooks.push({
+        book: bookName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Only the chapters the source has (e.g. a New Testament-only USFM folder, or a
+  // file with part of a book), so the progress total matches what gets written.
+  // Books named in --books that the source lacks are kept and reported as failed,
+  // and chapters named there that it lacks are reported with the validation
+  private async resolveSelection(): Promise<BookSelection[]> {
+    const selection = parseBookSelection(this.config.books);
+    const available = await this.source.listBooks();
+    const resolved: BookSelection[] = [];
+    
+    for (const book of selection) {
+      if (!available.includes(book.name)) {
+        if (this.config.books?.length) resolved.push(book);
+        continue;
+      }
+      
+      const provided = await this.source.listChapters(book.name);
+      if (this.config.books?.length) {
+        book.chapters
+          .filter(chapter => !provided.includes(chapter))
+          .forEach(chapter => this.validations.push(absentChapter(book.name, chapter, this.versification)));
+      }
+      resolved.push({ ...book, chapters: book.chapters.filter(chapter => provided.includes(chapter)) });
+    }
+    return resolved;
+  }
+
+  // --force starts a fresh manifest; otherwise earlier runs are kept and merged
+  private async loadManifest(): Promise<void> {
+    if (this.config.force) {
+      logger.info('Ignoring the existing manifest and regenerating everything');
+      await this.manifest.save();
+      return;
+    }
+    
+    const loaded = await this.manifest.load();
+    
+    if (loaded) {
+      await this.manifest.pruneMissing((book, chapter) => this.fileWriter.getChapterPath(book, chapter));
+    } else if (this.config.resume) {
+      logger.warn('No manifest matches the current settings, so nothing can be skipped');
+    }
+  }
+
+  private async pendingChapters(book: string, chapters: number[]): Promise<number[]> {
+    if (!this.config.resume) {
+      return chapters;
+    }
+    
+    const pending: number[] = [];
+    for (const chapter of chapters) {
+      if (!await this.manifest.isComplete(book, chapter, this.fileWriter.getChapterPath(book, chapter))) {
+        pending.push(chapter);
+      }
+    }
+    return pending;
+  }
+
+  // Settings that change the generated markdown; chapters recorded under a
+  // different fingerprint can't be reused
+  private outputFingerprint(): string {
+    const settings = {
+      source: this.source.name,
+      version: this.config.version,
+      style: this.config.style,
+      parallel: this.config.parallel,
+      strongs: this.config.strongs,
+      // Chapters from runs without it have no Strong's numbers recorded
+      concordance: this.config.concordance || undefined,
+      // Chapters from runs without either have no references recorded
+      references: this.recordsReferences() || undefined,
+      noteTypes: this.config.noteTypes,
+      noteLayout: this.config.noteLayout,
+      originalLanguage: this.config.originalLanguage,
+      formatting: [resolveFormatting(this.config.style, this.config.formatting), resolveFormatClasses(this.config.formatting)],
+      footnotes: this.includesFootnotes()
+    };
+    return createHash('sha256').update(JSON.stringify(settings)).digest('hex').slice(0, 16);
+  }
+
+  private recordsReferences(): boolean {
+    return Boolean(this.config.backlinks || this.config.graph?.length);
+  }
+
+  private includesFootnotes(): boolean {
+    // Fast mode skips footnotes for speed
+    return (this.config.style === 'study' || this.config.style === 'reading') && this.source.hasFootnotes() && this.config.speedMode !== 'fast';
+  }
+
+  private async processChaptersInParallel(chapters: ParsedChapter[]): Promise<ParsedChapter[]> {
+    // Concurrency is bounded by the source (the API's rate limiter), not by batching here
+    return Promise.all(chapters.map(async (chapter) => {
+      this.validations.push(validateChapter(chapter, this.versification));
+      
+      // Fetch footnotes if needed (skip in fast mode for speed)
+      let footnotes: ParsedFootnote[] = [];
+      let footnotesComplete = true;
+      
+      if (this.includesFootnotes()) {
+        try {
+          footnotes = attachFootnotes(chapter.sections, await this.source.fetchFootnotes(chapter.book, chapter.chapter));
+        } catch (error) {
+          // Offline cache misses must fail the run instead of dropping notes
+          if (error instanceof CacheMissError) {
+            throw error;
           }
+          // Otherwise keep the chapter and report the missing notes at the end
+          footnotesComplete = false;
+          this.footnoteFailures.push({
+            chapter: `${chapter.book} ${chapter.chapter}`,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
         }
-        
-        // Generate markdown
-        const markdown = this.markdownGenerator.generateChapterMarkdown(chapter, footnotes);
-        
-        // Write file
-        await this.fileWriter.writeChapter(chapter, markdown);
-        
-        return chapter;
+      }
+      
+      // Generate markdown
+      const markdown = this.markdownGenerator.generateChapterMarkdown(chapter, footnotes);
+      
+      // Write file
+      await this.fileWriter.writeChapter(chapter, markdown);
+      
+      // Chapters missing their notes are marked partial so --resume retries them
+      const verses = chapterVerses(chapter.sections).length;
+      // Only the notes that made it into the output count
+      const references = this.recordsReferences()
+        ? noteReferences(footnotes.filter(note => matchesNoteTypes(note.type, this.config.noteTypes)))
+        : undefined;
+      // Stored before the chapter counts as complete, so a resumed run never misses them
+      if (this.config.concordance) {
+        await this.strongsStore.record(chapter.book, chapter.chapter, chapterStrongs(chapter.sections));
+      }
+      // Reading style links to verses through their paragraphs
+      const paragraphs = this.config.style === 'reading' && !(this.config.parallel && chapter.parallel)
+        ? paragraphBlockIds(chapter.sections)
+        : undefined;
+      await this.manifest.record(chapter.book, chapter.chapter, markdown, verses, !footnotesComplete, {
+        title: chapterTitle(chapter),
+        references,
+        paragraphs
       });
       
-      // Wait for this batch to complete
-      const batchResults = await Promise.all(chapterPromises);
-      results.push(...batchResults);
+      return chapter;
+    }));
+  }
+
+  // Covers every chapter in the manifest, including those of earlier runs
+  private async writeConcordance(): Promise<void> {
+    const concordance = await this.strongsStore.occurrences(this.manifest.completedBooks());
+    if (concordance.size === 0) {
+      logger.warn(`${this.config.version} has no Strong's numbers, so no concordance was written`);
+      return;
+    }
+    
+    const generator = createConcordanceGenerator();
+    const notes = [...concordance].map(([number, occurrences]) => ({
+      number,
+      markdown: generator.generateNote(number, occurrences, this.verseAnchor())
+    }));
+    await this.fileWriter.writeConcordance(notes, generator.generateIndex(concordance));
+  }
+
+  // Written after every chapter, so reading style can point at the paragraphs
+  // the manifest recorded; chapters without them are linked as a whole
+  private verseAnchor(): VerseAnchor {
+    if (this.config.style !== 'reading') return verseHeading;
+    return (book, chapter, verse) => this.manifest.verseBlock(book, chapter, verse);
+  }
+
+  // Every chapter in the manifest is updated, so sections from earlier runs
+  // gain the notes of this one and lose those no longer there
+  private async writeBacklinks(): Promise<void> {
+    const backlinks = this.manifest.backlinks();
+    const generator = createBacklinksGenerator();
+    
+    for (const { name, chapters } of this.manifest.completedBooks()) {
+      for (const chapter of chapters) {
+        const section = generator.generateSection(name, chapter, backlinks.get(`${name} ${chapter}`) ?? [], this.verseAnchor());
+        const updated = await this.fileWriter.updateChapter(name, chapter, (markdown: string) => generator.applySection(markdown, section));
+        if (updated !== null) {
+          await this.manifest.updateHash(name, chapter, updated);
+        }
+      }
+    }
+  }
+
+  // Every level in every requested format, built from the manifest like the backlinks
+  private async writeGraphs(): Promise<void> {
+    const references = this.manifest.crossReferences();
+    const exporter = createGraphExporter();
+    
+    const graphs = GRAPH_LEVELS.flatMap(level => {
+      const graph = exporter.buildGraph(references, level);
+      return this.config.graph!.map(format => ({ name: `${level}.${format}`, content: exporter.format(graph, format) }));
+    });
+    await this.fileWriter.writeGraphs(graphs);
+  }
+
+  // Writes the report for this run's chapters and returns how many had problems
+  private async reportValidation(): Promise<number> {
+    const problems = this.validations
+      .filter(hasProblems)
+      .sort((a, b) => a.book === b.book ? a.chapter - b.chapter : bookOrder(a.book) - bookOrder(b.book));
+    
+    const reportPath = await this.fileWriter.writeValidationReport({
+      version: this.config.version,
+      versification: this.versification,
+      checkedAt: new Date().toISOString(),
+      chapters: this.validations.filter(validation => !validation.absent).length,
+      problems
+    });
+    
+    if (problems.length > 0) {
+      logger.warn(`${problems.length} chapters don't match the ${this.versification} versification (see ${reportPath}):`);
+      problems.forEach(validation => {
+        console.log(chalk.dim(`   ${validation.book} ${validation.chapter}: ${describeProblems(validation)}`));
+      });
     }
     
-    return results;
+    return problems.length;
+  }
+
+  private reportFootnoteFailures(): void {
+    if (this.footnoteFailures.length === 0) return;
+    
+    logger.warn(`Footnotes could not be downloaded for ${this.footnoteFailures.length} chapters:`);
+    this.footnoteFailures.forEach(failure => {
+      console.log(chalk.dim(`   ${failure.chapter}: ${failure.error}`));
+    });
   }
 }
 
+// Validation problems are listed in canonical order, whatever order books finished in
+function bookOrder(book: string): number {
+  return findBookByName(book)?.order ?? 0;
+}
+
 export function createConverter(config: SetupConfig): BibleConverter {
   return new BibleConverter(config);
 }
\ No newline at end of file
@@ -1,15 +1,18 @@
 import fs from 'fs-extra';
 import path from 'path';
-import { ParsedChapter, BibleVersion, OutputStyle } from '../types/index.js';
+import { ParsedChapter, BibleVersion, BibleVersionInfo, OutputStyle, ValidationReport } from '../types/index.js';
+import { CONCORDANCE_DIR_NAME, CONCORDANCE_INDEX_NAME, GRAPH_DIR_NAME, VALIDATION_REPORT_NAME } from '../utils/constants.js';
 
 export class FileWriter {
   private outputDir: string;
   private version: BibleVersion;
+  private versionInfo: BibleVersionInfo;
   private style: OutputStyle;
 
-  constructor(outputDir: string, version: BibleVersion, style: OutputStyle) {
+  constructor(outputDir: string, versionInfo: BibleVersionInfo, style: OutputStyle) {
     this.outputDir = outputDir;
-    this.version = version;
+    this.version = versionInfo.code;
+    this.versionInfo = versionInfo;
     this.style = style;
   }
 
@@ -19,15 +22,32 @@ export class FileWriter {
   }
 
   async writeChapter(chapter: ParsedChapter, markdown: string): Promise<void> {
-    const { book, chapter: chapterNum } = chapter;
-    const bookDir = path.join(this.outputDir, this.version, this.sanitizeFileName(book));
-    const fileName = `${book} ${chapterNum}.md`;
-    const filePath = path.join(bookDir, fileName);
+    const filePath = this.getChapterPath(chapter.book, chapter.chapter);
     
-    await fs.ensureDir(bookDir);
+    await fs.ensureDir(path.dirname(filePath));
     await fs.writeFile(filePath, markdown, 'utf8');
   }
 
+  // Returns the new content, or null when the update left the file as it was
+  async updateChapter(book: string, chapter: number, update: (markdown: string) => string): Promise<string | null> {
+    const filePath = this.getChapterPath(book, chapter);
+    const markdown = await fs.readFile(filePath, 'utf8');
+    const updated = update(markdown);
+    
+    if (updated === markdown) return null;
+    await fs.writeFile(filePath, updated, 'utf8');
+    return updated;
+  }
+
+  getVersionDir(): string {
+    return path.join(this.outputDir, this.version);
+  }
+
+  getChapterPath(book: string, chapter: number): string {
+    const bookDir = path.join(this.getVersionDir(), this.sanitizeFileName(book));
+    return path.join(bookDir, `${book} ${chapter}.md`);
+  }
+
   async writeBookIndex(bookName: string, markdown: string): Promise<void> {
     const bookDir = path.join(this.outputDir, this.version, this.sanitizeFileName(bookName));
     const filePath = path.join(bookDir, 'index.md');
@@ -41,6 +61,35 @@ export class FileWriter {
     await fs.writeFile(filePath, markdown, 'utf8');
   }
 
+  // Rewritten as a whole, so numbers no longer in the text don't linger
+  async writeConcordance(notes: { number: string; markdown: string }[], index: string): Promise<void> {
+    const concordanceDir = path.join(this.getVersionDir(), CONCORDANCE_DIR_NAME);
+    
+    await fs.emptyDir(concordanceDir);
+    await fs.writeFile(path.join(concordanceDir, `${CONCORDANCE_INDEX_NAME}.md`), index, 'utf8');
+    for (const note of notes) {
+      await fs.writeFile(path.join(concordanceDir, `${note.number}.md`), note.markdown, 'utf8');
+    }
+  }
+
+  // Rewritten as a whole, like the concordance; files are named after their
+  // level and format, e.g. "chapter.graphml"
+  async writeGraphs(graphs: { name: string; content: string }[]): Promise<void> {
+    const graphDir = path.join(this.getVersionDir(), GRAPH_DIR_NAME);
+    
+    await fs.emptyDir(graphDir);
+    for (const graph of graphs) {
+      await fs.writeFile(path.join(graphDir, graph.name), graph.content, 'utf8');
+    }
+  }
+
+  // Returns where the report was written, for the run summary
+  async writeValidationReport(report: ValidationReport): Promise<string> {
+    const filePath = path.join(this.getVersionDir(), VALIDATION_REPORT_NAME);
+    await fs.writeJson(filePath, report, { spaces: 2 });
+    return filePath;
+  }
+
   async writeReadme(): Promise<void> {
     const readme = this.generateReadme();
     const filePath = path.join(this.outputDir, this.version, 'README.md');
@@ -61,10 +110,10 @@ This directory contains the Bible converted to Markdown format.
 
 ## Format
 
-- **Version**: ${this.version}
+- **Version**: ${this.version} (${this.versionInfo.name})
 - **Style**: ${this.style}
 - **Generated**: ${new Date().toISOString()}
-
+${this.getCopyrightSection()}
 ## Navigation
 
 Use the Obsidian-style links to navigate between chapters and books. Each chapter file contains:
@@ -77,6 +126,16 @@ This format is optimized for use with Obsidian and other Markdown-based note-tak
 `;
   }
 
+  private getCopyrightSection(): string {
+    if (!this.versionInfo.copyright) return '';
+    
+    return `
+## Copyright
+
+${this.versionInfo.copyright}
+`;
+  }
+
   private getStyleDescription(): string {
     switch (this.style) {
       case 'study':
@@ -96,6 +155,12 @@ This format is optimized for use with Obsidian and other Markdown-based note-tak
 - Numbered verses
 - Cross-reference anchors`;
       
+      case 'reading':
+        return `- YAML frontmatter with metadata
+- Flowing paragraphs with superscript verse numbers
+- Section headings and navigation links
+- Paragraph block IDs and verse anchors`;
+      
       default:
         return '- Standard formatting';
     }
@@ -140,6 +205,6 @@ This format is optimized for use with Obsidian and other Markdown-based note-tak
   }
 }
 
-export function createFileWriter(outputDir: string, version: BibleVersion, style: OutputStyle): FileWriter {
-  return new FileWriter(outputDir, version, style);
+export function createFileWriter(outputDir: string, versionInfo: BibleVersionInfo, style: OutputStyle): FileWriter {
+  return new FileWriter(outputDir, versionInfo, style);
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import * as cheerio from 'cheerio';
 import { ParsedFootnote, VerseReference } from '../types/index.js';
+import { ORIGINAL_LANGUAGES } from '../utils/constants.js';
+import { parseReference, parseReferences } from '../utils/references.js';
 
 export class FootnotesParser {
   parseFootnotes(html: string): ParsedFootnote[] {
@@ -15,16 +17,11 @@ export class FootnotesParser {
       const number = numberText ? parseInt(numberText) : null;
       const id = numberEl.attr('id') || `note_${number || 'unknown'}`;
       
-      // Extract footnote type
-      const typeEl = $note.find('.notetype');
-      const type = typeEl.text().trim();
+      // Extract footnote type; a note can be both, e.g. "tn sn"
+      const type = $note.find('.notetype').map((_, typeEl) => $(typeEl).text().trim()).get().join(' ');
       
-      // Extract content (everything after the type)
-      const contentClone = $note.clone();
-      contentClone.find('sup').remove();
-      contentClone.find('.notetype').remove();
-      
-      let content = contentClone.text().trim();
+      // Extract content (everything after the type) as markdown
+      let content = noteMarkdown($, $note.contents().toArray());
       
       // Extract verse references
       const verseReferences = this.extractVerseReferences($note);
@@ -70,8 +67,7 @@ export class FootnotesParser {
     // This prevents duplicates when both data-ref and text patterns match the same reference
     if (references.length === 0) {
       const text = $note.text();
-      const additionalRefs = this.findBibleReferences(text);
-      references.push(...additionalRefs);
+      references.push(...parseReferences(text));
     }
     
     return references;
@@ -79,149 +75,41 @@ export class FootnotesParser {
   
   private parseDataRef(ref: string, display: string): VerseReference | null {
     // Parse data-ref format: "Bible:Jn 1:24", "Bible:1Co 7:1", "Bible:Ge 20:6"
-    const match = ref.match(/^Bible:(\w+)\s+(\d+):(\d+)(?:-(\d+))?$/);
-    if (!match) return null;
-    
-    const [, bookCode, chapter, verse, endVerse] = match;
-    const book = this.expandBookName(bookCode);
-    
-    return {
-      book,
-      chapter: parseInt(chapter),
-      verse: parseInt(verse),
-      endVerse: endVerse ? parseInt(endVerse) : undefined,
-      display
-    };
-  }
-  
-  
-  private findBibleReferences(text: string): VerseReference[] {
-    const references: VerseReference[] = [];
-    
-    // Common Bible reference patterns
-    const patterns = [
-      // "Gen 20:16", "1 Cor 7:1", "Matt 11:29"
-      /\b(\d?\s*\w+)\s+(\d+):(\d+)(?:-(\d+))?\b/g,
-      // "Ps 68:18", "Isa 44:26"
-      /\b(\w+)\s+(\d+):(\d+)(?:-(\d+))?\b/g
-    ];
-    
-    patterns.forEach(pattern => {
-      let match;
-      while ((match = pattern.exec(text)) !== null) {
-        const [display, bookName, chapter, verse, endVerse] = match;
-        const book = this.expandBookName(bookName.trim());
-        
-        if (this.isValidBookName(book)) {
-          references.push({
-            book,
-            chapter: parseInt(chapter),
-            verse: parseInt(verse),
-            endVerse: endVerse ? parseInt(endVerse) : undefined,
-            display
-          });
-        }
-      }
-    });
-    
-    return references;
+    const parsed = parseReference(ref.replace(/^Bible:/, ''));
+    return parsed ? { ...parsed, display } : null;
   }
-  
-  private expandBookName(code: string): string {
-    const bookMap: { [key: string]: string } = {
-      'Mt': 'Matthew',
-      'Mk': 'Mark',
-      'Lk': 'Luke',
-      'Lu': 'Luke',
-      'Jn': 'John',
-      'Ac': 'Acts',
-      'Ro': 'Romans',
-      '1Co': '1 Corinthians',
-      '2Co': '2 Corinthians',
-      'Ga': 'Galatians',
-      'Eph': 'Ephesians',
-      'Php': 'Philippians',
-      'Col': 'Colossians',
-      '1Th': '1 Thessalonians',
-      '2Th': '2 Thessalonians',
-      '1Ti': '1 Timothy',
-      '2Ti': '2 Timothy',
-      'Tit': 'Titus',
-      'Phm': 'Philemon',
-      'Heb': 'Hebrews',
-      'Jas': 'James',
-      '1Pe': '1 Peter',
-      '2Pe': '2 Peter',
-      '1Jn': '1 John',
-      '2Jn': '2 John',
-      '3Jn': '3 John',
-      'Jud': 'Jude',
-      'Re': 'Revelation',
-      'Ge': 'Genesis',
-      'Ex': 'Exodus',
-      'Le': 'Leviticus',
-      'Nu': 'Numbers',
-      'De': 'Deuteronomy',
-      'Jos': 'Joshua',
-      'Jdg': 'Judges',
-      'Ru': 'Ruth',
-      '1Sa': '1 Samuel',
-      '2Sa': '2 Samuel',
-      '1Ki': '1 Kings',
-      '2Ki': '2 Kings',
-      '1Ch': '1 Chronicles',
-      '2Ch': '2 Chronicles',
-      'Ezr': 'Ezra',
-      'Ne': 'Nehemiah',
-      'Es': 'Esther',
-      'Job': 'Job',
-      'Ps': 'Psalms',
-      'Pr': 'Proverbs',
-      'Ec': 'Ecclesiastes',
-      'So': 'Song of Solomon',
-      'Is': 'Isaiah',
-      'Jer': 'Jeremiah',
-      'La': 'Lamentations',
-      'Eze': 'Ezekiel',
-      'Da': 'Daniel',
-      'Ho': 'Hosea',
-      'Joe': 'Joel',
-      'Am': 'Amos',
-      'Ob': 'Obadiah',
-      'Jon': 'Jonah',
-      'Mic': 'Micah',
-      'Na': 'Nahum',
-      'Hab': 'Habakkuk',
-      'Zep': 'Zephaniah',
-      'Hag': 'Haggai',
-      'Zec': 'Zechariah',
-      'Mal': 'Malachi'
-    };
+}
+
+// Emphasis becomes markdown, Greek and Hebrew words keep their language in a
+// <span lang>, and <data ref> references stay as they are for the generator
+function noteMarkdown($: cheerio.CheerioAPI, nodes: any[]): string {
+  return nodes.map(node => {
+    if (node.type === 'text') return node.data;
+    if (node.type !== 'tag') return '';
     
-    return bookMap[code] || code;
-  }
-  
-  private isValidBookName(name: string): boolean {
-    const validBooks = [
-      'Genesis', 'Exodus', 'Leviticus', 'Numbers', 'Deuteronomy',
-      'Joshua', 'Judges', 'Ruth', '1 Samuel', '2 Samuel',
-      '1 Kings', '2 Kings', '1 Chronicles', '2 Chronicles',
-      'Ezra', 'Nehemiah', 'Esther', 'Job', 'Psalms',
-      'Proverbs', 'Ecclesiastes', 'Song of Solomon',
-      'Isaiah', 'Jeremiah', 'Lamentations', 'Ezekiel', 'Daniel',
-      'Hosea', 'Joel', 'Amos', 'Obadiah', 'Jonah', 'Micah',
-      'Nahum', 'Habakkuk', 'Zephaniah', 'Haggai', 'Zechariah', 'Malachi',
-      'Matthew', 'Mark', 'Luke', 'John', 'Acts',
-      'Romans', '1 Corinthians', '2 Corinthians', 'Galatians',
-      'Ephesians', 'Philippians', 'Colossians',
-      '1 Thessalonians', '2 Thessalonians', '1 Timothy', '2 Timothy',
-      'Titus', 'Philemon', 'Hebrews', 'James',
-      '1 Peter', '2 Peter', '1 John', '2 John', '3 John',
-      'Jude', 'Revelation'
-    ];
+    const $node = $(node);
+    const inner = () => noteMarkdown($, $node.contents().toArray());
+    if (node.name === 'sup' || $node.hasClass('notetype')) return '';
+    if (node.name === 'data' && $node.attr('ref')) return `<data ref="${$node.attr('ref')}">${$node.text()}</data>`;
+    if (node.name === 'i' || node.name === 'em' || $node.hasClass('translit')) return emphasize(inner(), '*');
+    if (node.name === 'b' || node.name === 'strong') return emphasize(inner(), '**');
+    if (node.name === 'p' || node.name === 'br') return ` ${inner()} `;
     
-    return validBooks.includes(name);
-  }
+    const language = Object.keys(ORIGINAL_LANGUAGES).find(className => $node.hasClass(className));
+    if (language) return `<span lang="${ORIGINAL_LANGUAGES[language]}">${$node.text().trim()}</span>`;
+    return inner();
+  }).join('');
+}
+
+// Markdown emphasis can't start or end with a space, so keep those outside
+function emphasize(text: string, marker: string): string {
+  const [, before, words, after] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return words ? `${before}${marker}${words}${marker}${after}` : text;
+}
+
+// A note of several types ("tn sn") is kept when any of them is; all notes are kept without a filter
+export function matchesNoteTypes(type: string, noteTypes?: string[]): boolean {
+  return !noteTypes || type.split(/\s+/).some(code => noteTypes.includes(code.toLowerCase()));
 }
 
 export function createFootnotesParser(): FootnotesParser {
@@ -0,0 +1,115 @@
+import { CrossReference, CrossReferenceGraph, GraphEdge, GraphFormat, GraphLevel, GraphNode } from '../types/index.js';
+import { BIBLE_BOOKS } from '../utils/constants.js';
+
+// The cross-reference network of the notes, for tools such as Graphviz and
+// Gephi: a node per verse, chapter or book, and an edge per reference
+export class GraphExporter {
+  buildGraph(references: CrossReference[], level: GraphLevel): CrossReferenceGraph {
+    const nodes = new Map<string, GraphNode>();
+    const addNode = (book: string, chapter: number, verse?: number): string => {
+      const node = graphNode(level, book, chapter, verse);
+      nodes.set(node.id, node);
+      return node.id;
+    };
+
+    const edges: GraphEdge[] = references.map(reference => ({
+      source: addNode(reference.fromBook, reference.fromChapter, reference.verse),
+      target: addNode(reference.book, reference.chapter, reference.toVerse),
+      type: reference.type,
+      // Note ids start again in every chapter
+      note: `${reference.fromBook} ${reference.fromChapter}#${reference.note}`,
+      from: graphNode('verse', reference.fromBook, reference.fromChapter, reference.verse).id,
+      to: graphNode('verse', reference.book, reference.chapter, reference.toVerse).id
+    }));
+
+    return { level, nodes: [...nodes.values()].sort(compareNodes), edges };
+  }
+
+  format(graph: CrossReferenceGraph, format: GraphFormat): string {
+    switch (format) {
+      case 'dot':
+        return this.toDot(graph);
+      case 'graphml':
+        return this.toGraphml(graph);
+      default:
+        return JSON.stringify(graph, null, 2);
+    }
+  }
+
+  private toDot(graph: CrossReferenceGraph): string {
+    let dot = `digraph ${quote(`Cross-references by ${graph.level}`)} {\n`;
+    graph.nodes.forEach(({ id, ...attributes }) => {
+      dot += `  ${quote(id)} [${dotAttributes(attributes)}];\n`;
+    });
+    graph.edges.forEach(({ source, target, ...attributes }) => {
+      dot += `  ${quote(source)} -> ${quote(target)} [${dotAttributes(attributes)}];\n`;
+    });
+    return `${dot}}\n`;
+  }
+
+  private toGraphml(graph: CrossReferenceGraph): string {
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n';
+    GRAPHML_KEYS.forEach(([name, owner, type]) => {
+      xml += `  <key id="${name}" for="${owner}" attr.name="${name}" attr.type="${type}"/>\n`;
+    });
+    xml += `  <graph id="${graph.level}" edgedefault="directed">\n`;
+    graph.nodes.forEach(({ id, ...attributes }) => {
+      xml += `    <node id="${escapeXml(id)}">${graphmlData(attributes)}</node>\n`;
+    });
+    graph.edges.forEach(({ source, target, ...attributes }, index) => {
+      xml += `    <edge id="e${index}" source="${escapeXml(source)}" target="${escapeXml(target)}">${graphmlData(attributes)}</edge>\n`;
+    });
+    return `${xml}  </graph>\n</graphml>\n`;
+  }
+}
+
+// GraphML declares its attributes up front: name, what has it, and its type
+const GRAPHML_KEYS: [string, 'node' | 'edge', 'string' | 'int'][] = [
+  ['book', 'node', 'string'],
+  ['chapter', 'node', 'int'],
+  ['verse', 'node', 'int'],
+  ['type', 'edge', 'string'],
+  ['note', 'edge', 'string'],
+  ['from', 'edge', 'string'],
+  ['to', 'edge', 'string']
+];
+
+// "John 3:16", or "John 3" for a note on no verse or a reference to a whole chapter
+function graphNode(level: GraphLevel, book: string, chapter: number, verse?: number): GraphNode {
+  if (level === 'book') return { id: book, book };
+  if (level === 'chapter' || verse === undefined) return { id: `${book} ${chapter}`, book, chapter };
+  return { id: `${book} ${chapter}:${verse}`, book, chapter, verse };
+}
+
+function compareNodes(a: GraphNode, b: GraphNode): number {
+  return bookIndex(a.book) - bookIndex(b.book) || (a.chapter ?? 0) - (b.chapter ?? 0) || (a.verse ?? 0) - (b.verse ?? 0);
+}
+
+function bookIndex(book: string): number {
+  return BIBLE_BOOKS.findIndex(({ name }) => name === book);
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+function dotAttributes(attributes: { [name: string]: string | number | undefined }): string {
+  return Object.entries(attributes)
+    .map(([name, value]) => `${name}=${typeof value === 'number' ? value : quote(value!)}`)
+    .join(', ');
+}
+
+function graphmlData(attributes: { [name: string]: string | number | undefined }): string {
+  return Object.entries(attributes)
+    .map(([name, value]) => `<data key="${name}">${escapeXml(String(value))}</data>`)
+    .join('');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function createGraphExporter(): GraphExporter {
+  return new GraphExporter();
+}
\ No newline at end of file
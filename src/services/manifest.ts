@@ -0,0 +1,182 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Backlink, ChapterSummary, ConversionManifest, CrossReference, ManifestChapterEntry } from '../types/index.js';
+import { BIBLE_BOOKS, MANIFEST_FILE_NAME } from '../utils/constants.js';
+import { paragraphAnchor } from '../utils/chapters.js';
+
+// 2: Strong's numbers moved to their own store
+const MANIFEST_FORMAT = 2;
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export class ManifestStore {
+  private versionDir: string;
+  private filePath: string;
+  private manifest: ConversionManifest;
+  private writeChain: Promise<void> = Promise.resolve();
+  private writeQueued = false;
+
+  constructor(versionDir: string, fingerprint: string) {
+    this.versionDir = versionDir;
+    this.filePath = path.join(versionDir, MANIFEST_FILE_NAME);
+    this.manifest = this.emptyManifest(fingerprint);
+  }
+
+  // Returns false when there was no usable manifest for these settings
+  async load(): Promise<boolean> {
+    const fingerprint = this.manifest.fingerprint;
+
+    try {
+      const existing: ConversionManifest = await fs.readJson(this.filePath);
+      if (existing.format !== MANIFEST_FORMAT || existing.fingerprint !== fingerprint) {
+        return false;
+      }
+      this.manifest = existing;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // A chapter is complete when it was fully recorded and its file is unchanged on disk
+  async isComplete(book: string, chapter: number, filePath: string): Promise<boolean> {
+    const entry = this.manifest.chapters[chapterKey(book, chapter)];
+    if (!entry || entry.partial) return false;
+
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      return hashContent(content) === entry.hash;
+    } catch {
+      return false;
+    }
+  }
+
+  record(book: string, chapter: number, markdown: string, verses: number, partial = false, details: Pick<ManifestChapterEntry, 'title' | 'references' | 'paragraphs'> = {}): Promise<void> {
+    this.manifest.chapters[chapterKey(book, chapter)] = {
+      book,
+      chapter,
+      verses,
+      hash: hashContent(markdown),
+      completedAt: new Date().toISOString(),
+      ...(partial ? { partial } : {}),
+      ...(details.title ? { title: details.title } : {}),
+      ...(details.references ? { references: details.references } : {}),
+      ...(details.paragraphs ? { paragraphs: details.paragraphs } : {})
+    };
+    return this.save();
+  }
+
+  // For files changed after they were recorded, such as by adding backlinks
+  updateHash(book: string, chapter: number, markdown: string): Promise<void> {
+    const entry = this.manifest.chapters[chapterKey(book, chapter)];
+    if (entry) {
+      entry.hash = hashContent(markdown);
+    }
+    return this.save();
+  }
+
+  // Drop entries whose files no longer exist so indexes never link to them
+  async pruneMissing(chapterPath: (book: string, chapter: number) => string): Promise<void> {
+    for (const [key, entry] of Object.entries(this.manifest.chapters)) {
+      if (!await fs.pathExists(chapterPath(entry.book, entry.chapter))) {
+        delete this.manifest.chapters[key];
+      }
+    }
+    await this.save();
+  }
+
+  chaptersForBook(book: string): ChapterSummary[] {
+    return this.entriesForBook(book).map(({ chapter, verses, title }) => ({ chapter, verses, ...(title ? { title } : {}) }));
+  }
+
+  // The anchor of the reading-style paragraph holding a verse, e.g. "^16-21"
+  verseBlock(book: string, chapter: number, verse: number): string | undefined {
+    return paragraphAnchor(this.manifest.chapters[chapterKey(book, chapter)]?.paragraphs ?? [], verse);
+  }
+
+  // Every recorded note reference, in canonical order of the notes' chapters
+  crossReferences(): CrossReference[] {
+    return BIBLE_BOOKS.flatMap(({ name }) => this.entriesForBook(name).flatMap(entry =>
+      (entry.references ?? []).map(reference => ({ fromBook: entry.book, fromChapter: entry.chapter, ...reference }))
+    ));
+  }
+
+  // The notes of other chapters referring to each chapter ("John 3"), in
+  // canonical order of the notes; each note and verse pair is listed once
+  backlinks(): Map<string, Backlink[]> {
+    const backlinks = new Map<string, Backlink[]>();
+    const seen = new Set<string>();
+
+    this.crossReferences().forEach(({ fromBook, fromChapter, verse, book, chapter, toVerse }) => {
+      const key = chapterKey(book, chapter);
+      const pair = `${fromBook} ${fromChapter}:${verse} ${key}:${toVerse}`;
+      if (key === chapterKey(fromBook, fromChapter) || seen.has(pair)) return;
+
+      seen.add(pair);
+      backlinks.set(key, [...backlinks.get(key) ?? [], { book: fromBook, chapter: fromChapter, verse, toVerse }]);
+    });
+
+    return backlinks;
+  }
+
+  // Every book with at least one completed chapter, in canonical order
+  completedBooks(): { name: string; chapters: number[] }[] {
+    return BIBLE_BOOKS
+      .map(book => ({
+        name: book.name,
+        chapters: this.chaptersForBook(book.name).map(summary => summary.chapter)
+      }))
+      .filter(book => book.chapters.length > 0);
+  }
+
+  // Writes are serialized and coalesced, so many chapters can record at once.
+  // A failed write is reported to its callers but doesn't stop the next one
+  save(): Promise<void> {
+    if (this.writeQueued) {
+      return this.writeChain;
+    }
+
+    this.writeQueued = true;
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        this.writeQueued = false;
+        this.manifest.updatedAt = new Date().toISOString();
+
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.ensureDir(this.versionDir);
+        await fs.writeJson(tempPath, this.manifest, { spaces: 2 });
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeChain;
+  }
+
+  private entriesForBook(book: string): ManifestChapterEntry[] {
+    return Object.values(this.manifest.chapters)
+      .filter(entry => entry.book === book)
+      .sort((a, b) => a.chapter - b.chapter);
+  }
+
+  private emptyManifest(fingerprint: string): ConversionManifest {
+    const now = new Date().toISOString();
+    return {
+      format: MANIFEST_FORMAT,
+      fingerprint,
+      createdAt: now,
+      updatedAt: now,
+      chapters: {}
+    };
+  }
+}
+
+function chapterKey(book: string, chapter: number): string {
+  return `${book} ${chapter}`;
+}
+
+export function createManifestStore(versionDir: string, fingerprint: string): ManifestStore {
+  return new ManifestStore(versionDir, fingerprint);
+}
\ No newline at end of file
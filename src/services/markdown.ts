@@ -1,37 +1,81 @@
-import { ParsedChapter, OutputStyle, BibleVersion, ParsedFootnote, VerseReference } from '../types/index.js';
+import { ParsedChapter, ChapterSummary, OutputStyle, BibleVersion, ParsedFootnote, VerseReference, ParallelLayout, ParallelText, StrongsMode, ParsedSection, ParsedParagraph, ParsedVerse, FormattingConfig, InlineFormat, InlineFormatting, TextSegment, NoteLayout, FormatMode, VerseAnchor } from '../types/index.js';
+import { INLINE_FORMATS, NOTE_TYPES } from '../utils/constants.js';
+import { chapterVerses, paragraphAnchor, paragraphBlockId, paragraphBlockIds, sectionVerses } from '../utils/chapters.js';
+import { findBookByName } from '../utils/books.js';
+import { findReferences, parseReference, referenceLink, verseHeading } from '../utils/references.js';
+import { resolveFormatClasses, resolveFormatting } from '../utils/formatting.js';
+import { matchesNoteTypes } from './footnotes.js';
+
+// Poetry lines end in a hard line break (two trailing spaces); a table cell
+// has to stay on one line, so it uses <br> instead
+const LINE_BREAK = '  \n';
+const TABLE_LINE_BREAK = '<br>';
+const INDENT = '&emsp;&emsp;';
+
+const SUPERSCRIPTS: { [char: string]: string } = Object.fromEntries(
+  [...'0123456789GH'].map((char, index) => [char, '⁰¹²³⁴⁵⁶⁷⁸⁹ᴳᴴ'[index]])
+);
+
+interface ParallelRow {
+  number: number;
+  verse?: ParsedVerse;
+  companion?: ParsedVerse;
+}
 
 export class MarkdownGenerator {
   private style: OutputStyle;
   private version: BibleVersion;
+  private parallel?: ParallelLayout;
+  private formatting: InlineFormatting;
+  private formatClasses: Record<InlineFormat, string>;
+  private strongs?: StrongsMode;
+  private noteTypes?: string[];
+  private noteLayout: NoteLayout;
+  private originalLanguage: FormatMode;
+  // Set per chapter: markers of notes that aren't shown as footnotes
+  private hiddenMarkers = new Set<number>();
+  // Set per chapter: where links to verses point
+  private verseAnchor: VerseAnchor = verseHeading;
 
-  constructor(style: OutputStyle, version: BibleVersion) {
+  constructor(style: OutputStyle, version: BibleVersion, parallel?: ParallelLayout, formatting?: FormattingConfig, strongs?: StrongsMode, noteTypes?: string[], noteLayout: NoteLayout = 'footnotes', originalLanguage: FormatMode = 'html') {
     this.style = style;
     this.version = version;
+    this.parallel = parallel;
+    this.formatting = resolveFormatting(style, formatting);
+    this.formatClasses = resolveFormatClasses(formatting);
+    this.strongs = strongs;
+    this.noteTypes = noteTypes;
+    this.noteLayout = noteLayout;
+    this.originalLanguage = originalLanguage;
   }
 
   generateChapterMarkdown(chapter: ParsedChapter, footnotes: ParsedFootnote[] = []): string {
     const { book, chapter: chapterNum, sections } = chapter;
+    const notes = this.prepareNotes(footnotes);
+    this.verseAnchor = this.chapterVerseAnchor(chapter);
     
     let markdown = this.generateFrontmatter(chapter);
     markdown += this.generateHeader(book, chapterNum);
     markdown += this.generateNavigation(book, chapterNum);
     markdown += '\n';
     
-    sections.forEach(section => {
-      if (section.title && this.style === 'study') {
-        markdown += `## ${section.title}\n\n`;
-      }
-      
-      section.verses.forEach(verse => {
-        markdown += this.generateVerse(verse, book, chapterNum, footnotes);
-      });
-      
-      markdown += '\n';
-    });
+    if (chapter.title) {
+      markdown += `*${chapter.title}*\n\n`;
+    }
+    
+    if (this.parallel && chapter.parallel) {
+      markdown += this.generateParallelSections(sections, chapter.parallel);
+    } else {
+      markdown += this.generateSections(sections, book, chapterNum, notes);
+    }
     
-    // Add footnotes section for study style
-    if (this.style === 'study' && footnotes.length > 0) {
-      markdown += this.generateFootnotesSection(footnotes, book, chapterNum);
+    // Add footnotes section for study and reading styles
+    if ((this.style === 'study' || this.style === 'reading') && notes.length > 0) {
+      markdown += this.generateNotesSection(notes, chapter);
+    }
+    
+    if (this.strongs === 'footnotes') {
+      markdown += this.generateStrongsSection(sections);
     }
     
     markdown += this.generateFooterNavigation(book, chapterNum);
@@ -39,22 +83,241 @@ export class MarkdownGenerator {
     return markdown.trim();
   }
 
+  // Reading style has no verse headings, so links go to the block of the
+  // verse's paragraph. Other chapters' paragraphs aren't known while this one
+  // is written, so links to them open the chapter.
+  private chapterVerseAnchor(chapter: ParsedChapter): VerseAnchor {
+    if (this.style !== 'reading') return verseHeading;
+    
+    const blockIds = this.parallel && chapter.parallel ? [] : paragraphBlockIds(chapter.sections);
+    return (book, chapterNum, verse) => book === chapter.book && chapterNum === chapter.chapter
+      ? paragraphAnchor(blockIds, verse)
+      : undefined;
+  }
+
   private generateFrontmatter(chapter: ParsedChapter): string {
     if (this.style === 'simple') return '';
     
     const { book, chapter: chapterNum, sections } = chapter;
-    const totalVerses = sections.reduce((sum, section) => sum + section.verses.length, 0);
+    const totalVerses = chapterVerses(sections).length;
+    const versions = this.parallel && chapter.parallel ? `versions: [${this.version}, ${chapter.parallel.version}]\n` : '';
+    // JSON strings are valid YAML, whatever punctuation the title has
+    const title = chapter.title ? `title: ${JSON.stringify(chapter.title)}\n` : '';
     
     return `---
 book: ${book}
 chapter: ${chapterNum}
 verses: ${totalVerses}
 version: ${this.version}
----
+${title}${versions}---
 
 `;
   }
 
+  private generateSections(sections: ParsedSection[], book: string, chapter: number, notes: ParsedFootnote[]): string {
+    let markdown = '';
+    
+    sections.forEach(section => {
+      if (section.title && (this.style === 'study' || this.style === 'reading')) {
+        markdown += `## ${section.title}\n\n`;
+      }
+      
+      if (this.style === 'reading') {
+        section.paragraphs.forEach(paragraph => {
+          markdown += this.generateParagraph(paragraph, book, chapter, notes);
+        });
+      } else {
+        sectionVerses(section).forEach(verse => {
+          markdown += this.generateVerse(verse, book, chapter, notes);
+        });
+      }
+      
+      markdown += '\n';
+    });
+    
+    return markdown;
+  }
+
+  // Reading style runs a paragraph's verses together. Obsidian only allows a
+  // block ID at the end of a paragraph, so each verse number carries an HTML
+  // anchor and the paragraph gets a block ID for its verse range, e.g. ^16-21,
+  // which links to its verses point at.
+  private generateParagraph(paragraph: ParsedParagraph, book: string, chapter: number, notes: ParsedFootnote[]): string {
+    const { verses } = paragraph;
+    
+    const text = verses.map((verse, index) => {
+      const previous = verses[index - 1];
+      const separator = !previous ? '' : verse.lines || previous.lines ? LINE_BREAK : ' ';
+      return `${separator}<sup id="${verse.number}">${verse.number}</sup> ${this.withFootnoteMarkers(verse)}`;
+    }).join('');
+    
+    return `${text} ^${paragraphBlockId(paragraph)}\n\n${this.generateVerseCallouts(verses, book, chapter, notes)}`;
+  }
+
+  // Verses are paired by number under the main translation's headings; any
+  // the companion numbers differently end up in a last block of their own
+  private generateParallelSections(sections: ParsedSection[], parallel: ParallelText): string {
+    const companionVerses = new Map<number, ParsedVerse>();
+    chapterVerses(parallel.sections).forEach(verse => companionVerses.set(verse.number, verse));
+    
+    const blocks = sections.map(section => {
+      const rows: ParallelRow[] = sectionVerses(section).map(verse => {
+        const companion = companionVerses.get(verse.number);
+        companionVerses.delete(verse.number);
+        return { number: verse.number, verse, companion };
+      });
+      return { title: section.title, rows };
+    });
+    
+    if (companionVerses.size > 0) {
+      const rows = [...companionVerses.values()].map(companion => ({ number: companion.number, companion }));
+      blocks.push({ title: undefined, rows });
+    }
+    
+    let markdown = '';
+    
+    blocks.forEach(block => {
+      if (block.title && (this.style === 'study' || this.style === 'reading')) {
+        markdown += `## ${block.title}\n\n`;
+      }
+      
+      if (this.parallel === 'table') {
+        markdown += this.generateParallelTable(block.rows, parallel.version);
+      } else {
+        block.rows.forEach(row => {
+          markdown += this.generateAlternatingVerse(row, parallel.version);
+        });
+      }
+      
+      markdown += '\n';
+    });
+    
+    return markdown;
+  }
+
+  private generateParallelTable(rows: ParallelRow[], companionVersion: BibleVersion): string {
+    let markdown = `| Verse | ${this.version} | ${companionVersion} |\n`;
+    markdown += `|---:|---|---|\n`;
+    
+    // Block IDs don't work inside table cells, so study style uses HTML anchors
+    const cell = (version: BibleVersion, number: number, text: string) => {
+      const anchor = this.style === 'study' && text ? `<a id="${this.anchorId(version, number)}"></a>` : '';
+      return `${anchor}${text.replace(/\|/g, '\\|')}`;
+    };
+    
+    rows.forEach(row => {
+      const text = row.verse ? this.withFootnoteMarkers(row.verse, TABLE_LINE_BREAK) : '';
+      const companionText = row.companion ? this.renderVerseText(row.companion, TABLE_LINE_BREAK) : '';
+      markdown += `| ${row.number} | ${cell(this.version, row.number, text)} | ${cell(companionVersion, row.number, companionText)} |\n`;
+    });
+    
+    return markdown;
+  }
+
+  private generateAlternatingVerse(row: ParallelRow, companionVersion: BibleVersion): string {
+    const lines: string[] = [];
+    
+    if (row.verse) {
+      lines.push(this.alternatingLine(this.version, row.number, this.withFootnoteMarkers(row.verse)));
+    }
+    if (row.companion) {
+      lines.push(this.alternatingLine(companionVersion, row.number, this.renderVerseText(row.companion)));
+    }
+    
+    const heading = this.style === 'study' ? `### ${row.number}\n` : '';
+    return `${heading}${lines.join('\n\n')}\n\n`;
+  }
+
+  private alternatingLine(version: BibleVersion, number: number, text: string): string {
+    if (this.style === 'study') {
+      return `**${version}** ${text} ^${this.anchorId(version, number)}`;
+    }
+    return `**${number} ${version}** ${text}`;
+  }
+
+  // Each side of a parallel chapter gets its own anchor, e.g. ^net-16 and ^nasb-16
+  private anchorId(version: BibleVersion, number: number): string {
+    return `${version.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${number}`;
+  }
+
+  private withFootnoteMarkers(verse: ParsedVerse, lineBreak: string = LINE_BREAK): string {
+    return `${this.renderVerseText(verse, lineBreak)}${this.footnoteMarkers(verse)}`;
+  }
+
+  private footnoteMarkers(verse: ParsedVerse): string {
+    return (verse.footnoteNumbers ?? [])
+      .filter(num => !this.hiddenMarkers.has(num))
+      .map(num => `[^${num}]`)
+      .join('');
+  }
+
+  // Poetry keeps its lines and indentation; the verse anchor and footnote
+  // markers go after the last line. A superscription gets a line of its own.
+  private renderVerseText(verse: ParsedVerse, lineBreak: string = LINE_BREAK): string {
+    const title = verse.title ? `*${verse.title}*${lineBreak}` : '';
+    if (!verse.lines) return `${title}${this.renderText(verse)}`;
+    
+    return title + verse.lines
+      .map(line => `${INDENT.repeat(line.indent)}${this.renderText(line)}`)
+      .join(lineBreak);
+  }
+
+  private renderText({ text, segments }: { text: string; segments?: TextSegment[] }): string {
+    if (!segments) return text;
+    
+    return this.renderSegments(segments, [...INLINE_FORMATS].reverse());
+  }
+
+  // Outermost format first, so a run of red letters becomes one span even
+  // when the LORD inside it is set apart as well
+  private renderSegments(segments: TextSegment[], formats: InlineFormat[]): string {
+    if (formats.length === 0) {
+      return segments.map(segment => this.renderStrongs(segment)).join('');
+    }
+    
+    const [format, ...inner] = formats;
+    const runs: TextSegment[][] = [];
+    segments.forEach((segment, index) => {
+      const previous = segments[index - 1];
+      if (previous && previous.formats.includes(format) === segment.formats.includes(format)) {
+        runs[runs.length - 1].push(segment);
+      } else {
+        runs.push([segment]);
+      }
+    });
+    
+    return runs.map(run => {
+      const text = this.renderSegments(run, inner);
+      return run[0].formats.includes(format) ? this.applyFormat(text, format) : text;
+    }).join('');
+  }
+
+  // Links show as a superscript number after the word, e.g. loved[[G25|ᴳ²⁵]];
+  // footnote markers share one [^G25] definition per chapter
+  private renderStrongs(segment: TextSegment): string {
+    if (!this.strongs || !segment.strongs) return segment.text;
+    
+    const marks = segment.strongs
+      .map(number => this.strongs === 'links' ? `[[${number}|${superscript(number)}]]` : `[^${number}]`)
+      .join('');
+    return wrapWords(segment.text, '', marks);
+  }
+
+  private applyFormat(text: string, format: InlineFormat): string {
+    switch (this.formatting[format]) {
+      case 'html':
+        return wrapWords(text, `<span class="${this.formatClasses[format]}">`, '</span>');
+      
+      case 'markdown':
+        if (format === 'divineName') return text.toUpperCase();
+        if (format === 'added') return wrapWords(text, '*', '*');
+        return text;
+      
+      default:
+        return text;
+    }
+  }
+
   private generateHeader(book: string, chapter: number): string {
     return `# ${book} ${chapter}\n\n`;
   }
@@ -76,20 +339,17 @@ version: ${this.version}
     return `${nav}\n\n`;
   }
 
-  private generateVerse(verse: any, book: string, chapter: number, _footnotes: ParsedFootnote[] = []): string {
-    const { number, text, footnoteNumbers } = verse;
+  private generateVerse(verse: ParsedVerse, book: string, chapter: number, notes: ParsedFootnote[] = []): string {
+    const { number } = verse;
+    const callouts = this.generateVerseCallouts([verse], book, chapter, notes);
     const anchor = this.style === 'study' ? ` ^${number}` : '';
     
     // Add footnote markers to make footnotes visible in Obsidian reading mode
-    let verseText = text;
-    if (footnoteNumbers && footnoteNumbers.length > 0) {
-      const footnoteMarkers = footnoteNumbers.map((num: number) => `[^${num}]`).join('');
-      verseText += footnoteMarkers;
-    }
+    const verseText = this.withFootnoteMarkers(verse);
     
     switch (this.style) {
       case 'study':
-        return `### ${number}\n${verseText}${anchor}\n\n`;
+        return `### ${number}\n${verseText}${anchor}\n\n${callouts}`;
       
       case 'simple':
         return `**${number}** ${verseText}\n\n`;
@@ -98,7 +358,7 @@ version: ${this.version}
         return `${number}. ${verseText} ^[[${book} ${chapter}#${number}]]\n\n`;
       
       default:
-        return `### ${number}\n${verseText}${anchor}\n\n`;
+        return `### ${number}\n${verseText}${anchor}\n\n${callouts}`;
     }
   }
 
@@ -108,7 +368,7 @@ version: ${this.version}
     return `\n---\n\n${this.generateNavigation(book, chapter)}`;
   }
 
-  generateBookIndex(book: string, chapters: ParsedChapter[]): string {
+  generateBookIndex(book: string, chapters: ChapterSummary[]): string {
     let markdown = `# ${book}\n\n`;
     
     if (this.style === 'study') {
@@ -116,13 +376,13 @@ version: ${this.version}
     }
     
     chapters.forEach(chapter => {
-      const { chapter: chapterNum, sections } = chapter;
-      const totalVerses = sections.reduce((sum, section) => sum + section.verses.length, 0);
+      const { chapter: chapterNum, verses: totalVerses, title } = chapter;
+      const description = title ? `: *${title}*` : '';
       
       if (this.style === 'study') {
-        markdown += `- [[${book} ${chapterNum}]] (${totalVerses} verses)\n`;
+        markdown += `- [[${book} ${chapterNum}]] (${totalVerses} verses)${description}\n`;
       } else {
-        markdown += `- [[${book} ${chapterNum}]]\n`;
+        markdown += `- [[${book} ${chapterNum}]]${description}\n`;
       }
     });
     
@@ -132,8 +392,8 @@ version: ${this.version}
   generateMasterIndex(books: { name: string; chapters: number[] }[]): string {
     let markdown = `# Bible Index\n\n`;
     
-    const oldTestament = books.filter(book => this.isOldTestament(book.name));
-    const newTestament = books.filter(book => !this.isOldTestament(book.name));
+    const newTestament = books.filter(book => findBookByName(book.name)?.testament === 'New');
+    const oldTestament = books.filter(book => !newTestament.includes(book));
     
     if (oldTestament.length > 0) {
       markdown += `## Old Testament\n\n`;
@@ -161,6 +421,79 @@ version: ${this.version}
     return markdown;
   }
 
+  private generateStrongsSection(sections: ParsedSection[]): string {
+    const numbers = new Set(chapterVerses(sections)
+      .flatMap(verse => verse.segments ?? [])
+      .flatMap(segment => segment.strongs ?? []));
+    if (numbers.size === 0) return '';
+    
+    let markdown = `\n---\n\n## Strong's Numbers\n\n`;
+    numbers.forEach(number => {
+      markdown += `[^${number}]: [[${number}]]\n\n`;
+    });
+    
+    return markdown;
+  }
+
+  // Drops the note types that weren't asked for, and their markers
+  private prepareNotes(footnotes: ParsedFootnote[]): ParsedFootnote[] {
+    const notes = footnotes.filter(footnote => matchesNoteTypes(footnote.type, this.noteTypes));
+    
+    this.hiddenMarkers = new Set(footnotes
+      .filter(footnote => !notes.includes(footnote) || this.noteLayout !== 'footnotes')
+      .map(footnote => footnote.number));
+    
+    return notes;
+  }
+
+  // With callouts, a verse's notes follow the verse (or its paragraph)
+  private generateVerseCallouts(verses: ParsedVerse[], book: string, chapter: number, notes: ParsedFootnote[]): string {
+    if (this.noteLayout !== 'callouts') return '';
+    
+    return notes
+      .filter(note => verses.some(verse => verse.number === note.verse))
+      .map(note => this.generateCallout(note, book, chapter))
+      .join('');
+  }
+
+  private generateNotesSection(notes: ParsedFootnote[], chapter: ParsedChapter): string {
+    const { book, chapter: chapterNum } = chapter;
+    
+    switch (this.noteLayout) {
+      case 'callouts': {
+        // Notes no verse marks; parallel layouts have no room for callouts at all
+        const parallel = this.parallel && chapter.parallel;
+        const remaining = notes.filter(note => parallel || note.verse === undefined);
+        return remaining.length > 0
+          ? `\n---\n\n## Notes\n\n${remaining.map(note => this.generateCallout(note, book, chapterNum)).join('')}`
+          : '';
+      }
+      
+      case 'collapsed':
+        return this.generateCollapsedNotes(notes, book, chapterNum);
+      
+      default:
+        return this.generateFootnotesSection(notes, book, chapterNum);
+    }
+  }
+
+  private generateCallout(note: ParsedFootnote, book: string, chapter: number): string {
+    const { name, callout } = noteTypeInfo(note.type);
+    const content = this.processFootnoteContent(note.content, note, book, chapter);
+    return `> [!${callout}] ${name}\n> ${content}\n\n`;
+  }
+
+  // One folded callout, each note led by a link to its verse
+  private generateCollapsedNotes(notes: ParsedFootnote[], book: string, chapter: number): string {
+    const entries = notes.map(note => {
+      const link = note.verse !== undefined ? `${this.verseLink(book, chapter, note.verse, `${note.verse}`)} ` : '';
+      const content = this.processFootnoteContent(note.content, note, book, chapter);
+      return `> ${link}**${noteTypeInfo(note.type).name}** ${content}`;
+    });
+    
+    return `\n---\n\n> [!note]- Notes (${notes.length})\n${entries.join('\n>\n')}\n\n`;
+  }
+
   private generateFootnotesSection(footnotes: ParsedFootnote[], book: string, chapter: number): string {
     if (footnotes.length === 0) return '';
     
@@ -168,9 +501,9 @@ version: ${this.version}
     
     footnotes.forEach(footnote => {
       const verseLink = this.getFootnoteVerseLink(footnote, book, chapter);
-      const processedContent = this.processFootnoteContent(footnote.content, footnote);
+      const processedContent = this.processFootnoteContent(footnote.content, footnote, book, chapter);
       
-      markdown += `[^${footnote.number}]: **${footnote.type.toUpperCase()}** ${processedContent}`;
+      markdown += `[^${footnote.number}]: **${noteTypeInfo(footnote.type).name}** ${processedContent}`;
       
       // Add link back to originating verse (cross-references are now inline in processedContent)
       if (verseLink) {
@@ -195,240 +528,106 @@ version: ${this.version}
     });
   }
   
-  private getFootnoteVerseLink(footnote: ParsedFootnote, book: string, chapter: number): string {
-    // Extract verse number from footnote ID (e.g., "note_1", "note_John_3_1")
-    const idMatch = footnote.id.match(/(\d+)$/);
-    if (idMatch) {
-      const verseNumber = idMatch[1];
-      return `[[${book} ${chapter}#${verseNumber}|↑]]`;
+  private formatOriginalLanguage(span: string): string {
+    const words = span.replace(/<[^>]+>/g, '');
+    switch (this.originalLanguage) {
+      case 'off':
+        return words;
+      case 'markdown':
+        return `*${words}*`;
+      default:
+        return span;
     }
-    return '';
   }
   
-  private processFootnoteContent(content: string, footnote?: ParsedFootnote): string {
-    let processed = content;
-    
+  private getFootnoteVerseLink(footnote: ParsedFootnote, book: string, chapter: number): string {
+    return footnote.verse !== undefined ? this.verseLink(book, chapter, footnote.verse, '↑') : '';
+  }
+  
+  private verseLink(book: string, chapter: number, verse: number, display: string): string {
+    return referenceLink({ book, chapter, verse, display }, display, this.verseAnchor);
+  }
+  
+  private processFootnoteContent(content: string, footnote?: ParsedFootnote, book?: string, chapter?: number): string {
     // First, process any data-ref elements (for backward compatibility)
-    processed = processed.replace(
+    let processed = content.replace(
       /<data ref="Bible:([^"]+)">([^<]+)<\/data>/g,
       (_match, ref, display) => {
-        // Parse the reference
-        const refMatch = ref.match(/^(\w+)\s+(\d+):(\d+)(?:-(\d+))?$/);
-        if (refMatch) {
-          const [, bookCode, chapterNum, verse] = refMatch;
-          const book = this.expandBookCode(bookCode);
-          
-          return `[[${book} ${chapterNum}#${verse}|${display}]]`;
-        }
-        return display;
+        const reference = parseReference(ref);
+        return reference ? referenceLink(reference, display, this.verseAnchor) : display;
       }
     );
     
-    // Remove any remaining HTML tags
-    processed = processed.replace(/<[^>]+>/g, '');
+    // Remove any remaining HTML tags, except Greek and Hebrew words in html mode
+    processed = processed.replace(/(<span lang="[\w-]+">[^<]*<\/span>)|<[^>]+>/g, (_tag, language?: string) =>
+      language ? this.formatOriginalLanguage(language) : '');
+    const plain = processed;
     
-    // Track which parts of the string have already been linked to avoid double-linking
-    const linkedRanges: Array<{start: number, end: number}> = [];
+    // Link the references the source found, longest first so "1:1-3" wins over "1:1"
+    const references = [...footnote?.verseReferences ?? []].sort((a, b) => b.display.length - a.display.length);
+    references.forEach(reference => {
+      const display = new RegExp(`(?<![\\w:])${escapeRegExp(reference.display)}(?![\\w:])`, 'g');
+      processed = mapUnlinked(processed, text => text.replace(display, () => referenceLink(reference, reference.display, this.verseAnchor)));
+    });
     
-    // If we have verse references, inject them as inline links
-    if (footnote && footnote.verseReferences && footnote.verseReferences.length > 0) {
-      // Sort references by length (longest first) to handle overlapping matches correctly
-      const sortedRefs = [...footnote.verseReferences].sort((a, b) => 
-        b.display.length - a.display.length
-      );
-      
-      sortedRefs.forEach(ref => {
-        const { book, chapter, verse, display } = ref;
-        
-        // Create the wiki link
-        const wikiLink = `[[${book} ${chapter}#${verse}|${display}]]`;
-        
-        // Find all occurrences of the display text
-        const regex = new RegExp(`\\b${display.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'g');
-        let match: RegExpExecArray | null;
-        
-        while ((match = regex.exec(processed)) !== null) {
-          const matchStart = match.index;
-          const matchEnd = matchStart + match[0].length;
-          
-          // Check if this range has already been linked
-          const isAlreadyLinked = linkedRanges.some(range => 
-            (matchStart >= range.start && matchStart < range.end) ||
-            (matchEnd > range.start && matchEnd <= range.end)
-          );
-          
-          if (!isAlreadyLinked) {
-            // Replace this occurrence
-            processed = processed.substring(0, matchStart) + wikiLink + processed.substring(matchEnd);
-            
-            // Track this range as linked
-            linkedRanges.push({
-              start: matchStart,
-              end: matchStart + wikiLink.length
-            });
-            
-            // Adjust existing ranges that come after this one
-            linkedRanges.forEach(range => {
-              if (range.start >= matchEnd) {
-                const adjustment = wikiLink.length - match![0].length;
-                range.start += adjustment;
-                range.end += adjustment;
-              }
-            });
-            
-            // Reset regex lastIndex due to string modification
-            regex.lastIndex = matchStart + wikiLink.length;
-          }
-        }
-      });
-    }
+    // Then any others; bare "1:4" and "vv. 3, 5" are in the note's own book and chapter
+    processed = mapUnlinked(processed, text => {
+      const matches = findReferences(text, { book, chapter });
+      return matches.reduceRight((linked, { reference, index }) =>
+        linked.slice(0, index) + referenceLink(reference, reference.display, this.verseAnchor) + linked.slice(index + reference.display.length), text);
+    });
     
-    // Handle same-chapter verse references (e.g., "1:4" in a John 1 footnote)
-    // This should happen after the main verse reference processing
-    const currentBook = this.extractBookFromFootnote(footnote);
-    if (currentBook) {
-      // Match patterns like "1:4", "3:16-17", etc. but not if already in a wiki link
-      processed = processed.replace(
-        /(?<!\[\[)(?<![#:])\b(\d+):(\d+)(?:-(\d+))?\b(?![^\[]*\]\])/g,
-        (match, chapter, verse, endVerse) => {
-          // Check if this is already part of a wiki link
-          const beforeMatch = processed.substring(0, processed.indexOf(match));
-          const afterMatch = processed.substring(processed.indexOf(match) + match.length);
-          
-          if (beforeMatch.lastIndexOf('[[') > beforeMatch.lastIndexOf(']]') ||
-              afterMatch.indexOf(']]') < afterMatch.indexOf('[[')) {
-            return match; // Already in a wiki link
-          }
-          
-          if (endVerse) {
-            return `[[${currentBook} ${chapter}#${verse}|${chapter}:${verse}-${endVerse}]]`;
-          } else {
-            return `[[${currentBook} ${chapter}#${verse}|${chapter}:${verse}]]`;
-          }
-        }
-      );
+    // References the source lists without mentioning them in the note
+    const unmentioned = references.filter(reference => !plain.includes(reference.display));
+    if (unmentioned.length > 0) {
+      processed += ` (${unmentioned.map(reference => referenceLink(reference, reference.display, this.verseAnchor)).join('; ')})`;
     }
     
     return processed;
   }
   
-  private extractBookFromFootnote(footnote?: ParsedFootnote): string | null {
-    // Try to extract the book name from the footnote ID or verse references
-    if (footnote && footnote.id) {
-      // Check if ID contains book name pattern like "note_John_3_1"
-      const bookMatch = footnote.id.match(/note_([A-Za-z]+)_\d+_\d+/);
-      if (bookMatch) {
-        return bookMatch[1];
-      }
-    }
-    
-    // Could also infer from verse references if needed
-    // For now, return null if we can't determine the book
-    return null;
-  }
-  
-  private expandBookCode(code: string): string {
-    const bookMap: { [key: string]: string } = {
-      'Mt': 'Matthew',
-      'Mk': 'Mark',
-      'Lk': 'Luke',
-      'Lu': 'Luke',
-      'Jn': 'John',
-      'Ac': 'Acts',
-      'Ro': 'Romans',
-      '1Co': '1 Corinthians',
-      '2Co': '2 Corinthians',
-      'Ga': 'Galatians',
-      'Eph': 'Ephesians',
-      'Php': 'Philippians',
-      'Col': 'Colossians',
-      '1Th': '1 Thessalonians',
-      '2Th': '2 Thessalonians',
-      '1Ti': '1 Timothy',
-      '2Ti': '2 Timothy',
-      'Tit': 'Titus',
-      'Phm': 'Philemon',
-      'Heb': 'Hebrews',
-      'Jas': 'James',
-      '1Pe': '1 Peter',
-      '2Pe': '2 Peter',
-      '1Jn': '1 John',
-      '2Jn': '2 John',
-      '3Jn': '3 John',
-      'Jud': 'Jude',
-      'Re': 'Revelation',
-      'Ge': 'Genesis',
-      'Ex': 'Exodus',
-      'Le': 'Leviticus',
-      'Nu': 'Numbers',
-      'De': 'Deuteronomy',
-      'Jos': 'Joshua',
-      'Jdg': 'Judges',
-      'Ru': 'Ruth',
-      '1Sa': '1 Samuel',
-      '2Sa': '2 Samuel',
-      '1Ki': '1 Kings',
-      '2Ki': '2 Kings',
-      '1Ch': '1 Chronicles',
-      '2Ch': '2 Chronicles',
-      'Ezr': 'Ezra',
-      'Ne': 'Nehemiah',
-      'Es': 'Esther',
-      'Job': 'Job',
-      'Ps': 'Psalms',
-      'Pr': 'Proverbs',
-      'Ec': 'Ecclesiastes',
-      'So': 'Song of Solomon',
-      'Is': 'Isaiah',
-      'Jer': 'Jeremiah',
-      'La': 'Lamentations',
-      'Eze': 'Ezekiel',
-      'Da': 'Daniel',
-      'Ho': 'Hosea',
-      'Joe': 'Joel',
-      'Am': 'Amos',
-      'Ob': 'Obadiah',
-      'Jon': 'Jonah',
-      'Mic': 'Micah',
-      'Na': 'Nahum',
-      'Hab': 'Habakkuk',
-      'Zep': 'Zephaniah',
-      'Hag': 'Haggai',
-      'Zec': 'Zechariah',
-      'Mal': 'Malachi'
-    };
-    
-    return bookMap[code] || code;
-  }
-  
   // Note: This method is kept for testing purposes, but cross-references are now handled inline
   // @ts-ignore: Method used in tests
   private generateVerseLink(ref: VerseReference): string {
-    const { book, chapter, verse, endVerse } = ref;
-    
-    if (verse && endVerse) {
-      return `[[${book} ${chapter}#${verse}|${ref.display}]]`;
-    } else if (verse) {
-      return `[[${book} ${chapter}#${verse}|${ref.display}]]`;
-    } else {
-      return `[[${book} ${chapter}|${ref.display}]]`;
-    }
+    return referenceLink(ref);
   }
+}
 
-  private isOldTestament(bookName: string): boolean {
-    const newTestamentBooks = [
-      'Matthew', 'Mark', 'Luke', 'John', 'Acts',
-      'Romans', '1 Corinthians', '2 Corinthians', 'Galatians',
-      'Ephesians', 'Philippians', 'Colossians', '1 Thessalonians',
-      '2 Thessalonians', '1 Timothy', '2 Timothy', 'Titus',
-      'Philemon', 'Hebrews', 'James', '1 Peter', '2 Peter',
-      '1 John', '2 John', '3 John', 'Jude', 'Revelation'
-    ];
-    
-    return !newTestamentBooks.includes(bookName);
-  }
+// The name and callout of a note type; "tn sn" notes take both names
+function noteTypeInfo(type: string): { name: string; callout: string } {
+  const known = type.split(/\s+/).filter(Boolean).map(code => NOTE_TYPES[code.toLowerCase()] ?? { name: code.toUpperCase(), callout: 'note' });
+  if (known.length === 0) return { name: 'Note', callout: 'note' };
+  return { name: known.map(info => info.name).join(' / '), callout: known[0].callout };
+}
+
+// Apply a change to the text between wikilinks, leaving the links alone
+function mapUnlinked(text: string, change: (text: string) => string): string {
+  return text.split(/(\[\[[^\]]*\]\])/).map((part, index) => index % 2 === 0 ? change(part) : part).join('');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function superscript(text: string): string {
+  return [...text].map(char => SUPERSCRIPTS[char] ?? char).join('');
+}
+
+// Emphasis markers must touch the words, so surrounding spaces stay outside
+function wrapWords(text: string, open: string, close: string): string {
+  const [, leading, words, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return words ? `${leading}${open}${words}${close}${trailing}` : text;
 }
 
-export function createMarkdownGenerator(style: OutputStyle, version: BibleVersion): MarkdownGenerator {
-  return new MarkdownGenerator(style, version);
+export function createMarkdownGenerator(
+  style: OutputStyle,
+  version: BibleVersion,
+  parallel?: ParallelLayout,
+  formatting?: FormattingConfig,
+  strongs?: StrongsMode,
+  noteTypes?: string[],
+  noteLayout?: NoteLayout,
+  originalLanguage?: FormatMode
+): MarkdownGenerator {
+  return new MarkdownGenerator(style, version, parallel, formatting, strongs, noteTypes, noteLayout, originalLanguage);
 }
\ No newline at end of file
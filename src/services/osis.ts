@@ -0,0 +1,213 @@
+import * as cheerio from 'cheerio';
+import { InlineFormat, ParsedBook, VerseReference } from '../types/index.js';
+import { findBookByOsisCode } from '../utils/books.js';
+import { parseOsisRef, parseReferences } from '../utils/references.js';
+import { ParsedBookBuilder, cleanText, createBookBuilder } from './bookBuilder.js';
+
+type Target = 'text' | 'heading';
+
+// OSIS note types mapped onto the short codes used for netbible.org notes
+const NOTE_TYPES: { [type: string]: string } = {
+  crossReference: 'cr',
+  translation: 'tn',
+  study: 'sn',
+  explanation: 'sn',
+  variant: 'tc',
+  alternative: 'tn'
+};
+
+// Titles that are neither section headings nor descriptive titles
+const SKIPPED_TITLE_TYPES = ['main', 'chapter', 'parallel', 'runningHead', 'acrostic'];
+const SKIPPED_DIV_TYPES = ['introduction', 'preface', 'colophon', 'titlePage', 'front', 'back'];
+const SKIPPED_ELEMENTS = ['header', 'figure', 'milestone'];
+const BLOCK_ELEMENTS = ['p', 'l', 'lg', 'list', 'item', 'row', 'cell', 'lb'];
+
+// OSIS XML: one file can hold any number of <div type="book"> elements, with
+// chapters and verses either as containers or as sID/eID milestones
+export class OsisParser {
+  // sIDs of open <q who="Jesus"/> milestones, so the matching eID ends the red letters
+  private openQuotes = new Set<string>();
+
+  parseBooks(xml: string): ParsedBook[] {
+    const $ = cheerio.load(xml, { xml: true });
+    const books: ParsedBook[] = [];
+    this.openQuotes.clear();
+
+    $('div[type="book"]').each((_, bookEl) => {
+      const bookInfo = findBookByOsisCode($(bookEl).attr('osisID') ?? '');
+      if (!bookInfo) return;
+
+      const builder = createBookBuilder(bookInfo);
+      this.walk($, $(bookEl).contents().toArray(), builder, 'text');
+      books.push(builder.build());
+    });
+
+    return books;
+  }
+
+  private walk($: cheerio.CheerioAPI, nodes: any[], builder: ParsedBookBuilder, target: Target): void {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        if (target === 'heading') {
+          builder.appendTitle(node.data);
+        } else {
+          builder.appendText(node.data);
+        }
+        continue;
+      }
+      if (node.type !== 'tag') continue;
+
+      const $node = $(node);
+      const children = $node.contents().toArray();
+
+      switch (node.name) {
+        case 'chapter':
+          if ($node.attr('eID')) {
+            builder.endVerse();
+          } else {
+            const number = lastNumber($node.attr('osisID') ?? $node.attr('sID'));
+            if (number !== null) {
+              builder.startChapter(number);
+            }
+            this.walk($, children, builder, target);
+          }
+          break;
+
+        case 'verse':
+          if ($node.attr('eID')) {
+            builder.endVerse();
+          } else {
+            // Joined verses ("John.3.16 John.3.17") are numbered by the first
+            const number = lastNumber(($node.attr('osisID') ?? $node.attr('sID'))?.split(/\s+/)[0]);
+            if (number !== null) {
+              // A verse can start inside a descriptive title (Hebrew numbering)
+              builder.startVerse(number);
+              target = 'text';
+            }
+            if (children.length > 0) {
+              this.walk($, children, builder, target);
+              builder.endVerse();
+            }
+          }
+          break;
+
+        case 'title': {
+          const type = $node.attr('type') ?? '';
+          if (SKIPPED_TITLE_TYPES.includes(type)) break;
+
+          // Psalm superscriptions are canonical text, unlike section headings
+          if (type === 'psalm' || $node.attr('canonical') === 'true') {
+            builder.startDescriptiveTitle();
+          } else {
+            builder.startSection();
+          }
+          this.walk($, children, builder, 'heading');
+          break;
+        }
+
+        case 'note':
+          if (target === 'text') {
+            this.addNote($, $node, builder);
+          }
+          break;
+
+        case 'q':
+          this.walkQuote($, $node, children, builder, target);
+          break;
+
+        case 'transChange':
+        case 'divineName': {
+          const format: InlineFormat | null = node.name === 'divineName'
+            ? 'divineName'
+            : $node.attr('type') === 'added' ? 'added' : null;
+
+          if (format) builder.startFormat(format);
+          this.walk($, children, builder, target);
+          if (format) builder.endFormat(format);
+          break;
+        }
+
+        case 'div':
+          if (!SKIPPED_DIV_TYPES.includes($node.attr('type') ?? '')) {
+            this.walk($, children, builder, target);
+          }
+          break;
+
+        default:
+          if (SKIPPED_ELEMENTS.includes(node.name)) break;
+
+          // Poetry lines are containers or sID/eID milestones; level 2 and up are indented
+          if (node.name === 'l' && !$node.attr('eID')) {
+            builder.startPoetryLine(Math.max((parseInt($node.attr('level') ?? '') || 1) - 1, 0));
+          } else if (node.name === 'p') {
+            builder.startParagraph();
+          } else if (node.name === 'lg') {
+            builder.startStanza();
+          }
+
+          // Keep words apart across paragraph, poetry line and line-break boundaries
+          if (BLOCK_ELEMENTS.includes(node.name)) {
+            builder.appendText(' ');
+          }
+          this.walk($, children, builder, target);
+          if (BLOCK_ELEMENTS.includes(node.name)) {
+            builder.appendText(' ');
+          }
+      }
+    }
+  }
+
+  // Quotes are containers or sID/eID milestones; only Jesus' words are marked
+  private walkQuote($: cheerio.CheerioAPI, $quote: cheerio.Cheerio<any>, children: any[], builder: ParsedBookBuilder, target: Target): void {
+    const eID = $quote.attr('eID');
+    if (eID) {
+      if (this.openQuotes.delete(eID)) {
+        builder.endFormat('wordsOfJesus');
+      }
+      return;
+    }
+
+    const isJesus = $quote.attr('who') === 'Jesus';
+    const sID = $quote.attr('sID');
+    if (sID) {
+      if (isJesus) {
+        this.openQuotes.add(sID);
+        builder.startFormat('wordsOfJesus');
+      }
+      return;
+    }
+
+    if (isJesus) builder.startFormat('wordsOfJesus');
+    this.walk($, children, builder, target);
+    if (isJesus) builder.endFormat('wordsOfJesus');
+  }
+
+  private addNote($: cheerio.CheerioAPI, $note: cheerio.Cheerio<any>, builder: ParsedBookBuilder): void {
+    const type = NOTE_TYPES[$note.attr('type') ?? ''] ?? 'fn';
+    const $content = $note.clone();
+    // The origin reference repeats the verse the note is on
+    $content.find('reference[type="annotateRef"], reference[type="source"]').remove();
+    const content = cleanText($content.text());
+
+    const references = $note.find('reference[osisRef]').not('[type="annotateRef"], [type="source"]').toArray()
+      .map(ref => parseOsisRef($(ref).attr('osisRef')!, $(ref).text()))
+      .filter((ref): ref is VerseReference => ref !== null);
+
+    builder.addNote({
+      type,
+      content,
+      verseReferences: references.length > 0
+        ? references
+        : parseReferences(content, type === 'cr' ? builder.book : undefined)
+    });
+  }
+}
+
+function lastNumber(osisID: string | undefined): number | null {
+  const number = parseInt(osisID?.split('.').pop() ?? '');
+  return isNaN(number) ? null : number;
+}
+
+export function createOsisParser(): OsisParser {
+  return new OsisParser();
+}
\ No newline at end of file
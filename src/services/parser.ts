@@ -1,13 +1,31 @@
 import * as cheerio from 'cheerio';
-import { BibleVersion, ParsedChapter, ParsedSection, ParsedVerse } from '../types/index.js';
+import { InlineFormat, ParsedChapter, ParsedSection, ParsedVerse, TextSegment } from '../types/index.js';
+import { INLINE_FORMATS } from '../utils/constants.js';
+import { findBookByName } from '../utils/books.js';
+import { buildVerseLines, hasMarkup, linesText, normalizeSegments, segmentsText } from '../utils/formatting.js';
 
-export class BibleParser {
-  private version: BibleVersion;
+// Markup netbible.org uses for supplied words, small-caps LORD and red letters
+const FORMAT_SELECTORS: { [format in InlineFormat]: string } = {
+  added: 'i, em, .italic, .add',
+  divineName: '.smallcaps, .sc, .divineName, .nd, [style*="small-caps"]',
+  wordsOfJesus: '.red, .redletter, .woc, .wj'
+};
+const ANY_FORMAT = Object.values(FORMAT_SELECTORS).join(', ');
 
-  constructor(version: BibleVersion) {
-    this.version = version;
-  }
+// net_strongs2 wraps words in <st data-num="25">; the number is Greek in the
+// New Testament and Hebrew in the Old
+const STRONGS = 'st[data-num]';
+
+// Poetry comes in its own paragraphs with a <br> after each line; indented
+// lines start with an indent span (.indent2 is two levels in)
+const POETRY_PARAGRAPHS = '.poetry, .otpoetry, .ntpoetry';
+const INDENTS = '.indent, .indent1, .indent2, .indent3';
+
+// Psalm superscriptions and other chapter headings. Before the first verse
+// they title the chapter; inside a verse span they belong to that verse.
+const TITLES = '.psasuper, .superscription, .chaptertitle';
 
+export class BibleParser {
   parseChapters(html: string): ParsedChapter[] {
     const $ = cheerio.load(html);
     const chapters: ParsedChapter[] = [];
@@ -24,11 +42,13 @@ export class BibleParser {
       const book = bookName.replace(/_/g, ' ');
       const chapter = parseInt(chapterNum);
       
-      const sections = this.parseSections($, chunkEl);
+      const strongsPrefix = findBookByName(book)?.testament === 'New' ? 'G' : 'H';
+      const { title, sections } = this.parseSections($, chunkEl, strongsPrefix);
       
       chapters.push({
         book,
         chapter,
+        ...(title && { title }),
         sections
       });
     });
@@ -36,35 +56,43 @@ export class BibleParser {
     return chapters;
   }
 
-  private parseSections($: cheerio.CheerioAPI, chunkEl: any): ParsedSection[] {
+  private parseSections($: cheerio.CheerioAPI, chunkEl: any, strongsPrefix: string): { title?: string; sections: ParsedSection[] } {
     const sections: ParsedSection[] = [];
     let currentSection: ParsedSection | null = null;
+    let chapterTitle = '';
     
     $(chunkEl).children().each((_, el) => {
       const $el = $(el);
+      const started = sections.length > 0 || (currentSection?.paragraphs.length ?? 0) > 0;
+      // A title paragraph holding verses is numbered as verse text
+      const isTitle = $el.is(TITLES) && $el.find('.netVerse').length === 0;
       
-      // Check for section title
-      if ($el.hasClass('paragraphtitle')) {
-        // Save previous section if exists
+      if (isTitle && !started) {
+        chapterTitle = `${chapterTitle} ${headingText($el)}`.trim();
+      } else if ($el.hasClass('paragraphtitle') || isTitle) {
+        // Save previous section if exists (a title after the first verse
+        // starts a section like any other heading)
         if (currentSection) {
           sections.push(currentSection);
         }
         
         // Start new section
-        const title = $el.find('h3').text().trim();
+        const sectionTitle = isTitle ? headingText($el) : $el.find('h3').text().trim();
         currentSection = {
-          title: title || undefined,
-          verses: []
+          title: sectionTitle || undefined,
+          paragraphs: []
         };
-      } else if ($el.hasClass('bodytext')) {
+      } else if ($el.hasClass('bodytext') || $el.is(POETRY_PARAGRAPHS) || $el.is(TITLES)) {
         // Parse verses in this paragraph
-        const verses = this.parseVerses($, el);
+        const verses = this.parseVerses($, el, strongsPrefix);
         
         if (!currentSection) {
-          currentSection = { verses: [] };
+          currentSection = { paragraphs: [] };
         }
         
-        currentSection.verses.push(...verses);
+        if (verses.length > 0) {
+          currentSection.paragraphs.push({ verses });
+        }
       }
     });
     
@@ -73,14 +101,15 @@ export class BibleParser {
       sections.push(currentSection);
     }
     
-    return sections;
+    return { title: chapterTitle || undefined, sections };
   }
 
-  private parseVerses($: cheerio.CheerioAPI, bodyEl: any): ParsedVerse[] {
+  private parseVerses($: cheerio.CheerioAPI, bodyEl: any, strongsPrefix: string): ParsedVerse[] {
     const verses: ParsedVerse[] = [];
+    const poetry = $(bodyEl).is(POETRY_PARAGRAPHS);
     
     $(bodyEl).find('.netVerse').each((_, verseEl) => {
-      const $verse = $(verseEl);
+      let $verse = $(verseEl);
       const id = $verse.attr('id') || '';
       
       // Extract verse number from ID (format: netText_Book_Chapter_Verse)
@@ -105,16 +134,34 @@ export class BibleParser {
         }
       }
       
-      // Extract clean text and footnote references
-      const text = this.extractCleanText($verse);
+      // Footnote references include any on the superscription
       const footnoteNumbers = this.extractFootnoteNumbers($, $verse);
       
+      // A superscription mixed into the verse comes out of its text, unless
+      // it is all there is (a verse that is only a title keeps it as text)
+      let title: string | undefined;
+      const $titles = $verse.find(TITLES);
+      if ($titles.length > 0) {
+        const $rest = $verse.clone();
+        $rest.find(TITLES).remove();
+        if (this.extractCleanText($rest)) {
+          title = $titles.toArray().map(titleEl => headingText($(titleEl))).join(' ');
+          $verse = $rest;
+        }
+      }
+      
+      // Extract clean text
+      const text = this.extractCleanText($verse);
+      const structure = this.extractStructure($verse, text.trim(), poetry, strongsPrefix);
+      
       if (text.trim()) {
         verses.push({
           number: verseNumber,
           text: text.trim(),
           id,
-          footnoteNumbers
+          footnoteNumbers,
+          ...structure,
+          ...(title && { title })
         });
       }
     });
@@ -137,21 +184,8 @@ export class BibleParser {
   }
 
   private extractCleanText($verse: cheerio.Cheerio<any>): string {
-    // Get a fresh copy of the verse HTML
-    let html = $verse.html() || '';
-    
-    // Remove verse/chapter number spans
-    html = html.replace(/<span class="vref">.*?<\/span>/g, '');
-    
-    // Remove footnote markers
-    html = html.replace(/<sup>.*?<\/sup>/g, '');
-    html = html.replace(/<a[^>]*class="netNoteSuper"[^>]*>.*?<\/a>/g, '');
-    
-    // Remove Strong's number wrapper but keep text
-    html = html.replace(/<st[^>]*>(.*?)<\/st>/g, '$1');
-    
     // Load clean HTML and extract text
-    const $ = cheerio.load(html);
+    const $ = cheerio.load(this.cleanVerseHtml($verse));
     let text = $.text();
     
     // Clean up whitespace
@@ -163,11 +197,90 @@ export class BibleParser {
     return text;
   }
 
-  getVersionHtml(bible1: string, bible2: string): string {
-    return this.version === 'NET' ? bible1 : bible2;
+  // The same text split wherever the formatting or Strong's numbers change
+  // (segments) and, in poetry, at each line break (lines). Either is left out
+  // when it doesn't add up to the plain text.
+  private extractStructure($verse: cheerio.Cheerio<any>, text: string, poetry: boolean, strongsPrefix: string): Pick<ParsedVerse, 'segments' | 'lines'> {
+    const hasBreaks = poetry || $verse.find('br').length > 0;
+    if (!hasBreaks && $verse.find(`${ANY_FORMAT}, ${STRONGS}`).length === 0) return {};
+    
+    const $ = cheerio.load(this.cleanVerseHtml($verse));
+    const raw = [{ indent: 0, segments: [] as TextSegment[] }];
+    
+    const collect = (node: any, formats: InlineFormat[], strongs?: string[]) => {
+      const line = raw[raw.length - 1];
+      if (node.type === 'text') {
+        line.segments.push({ text: node.data, formats, ...(strongs && { strongs }) });
+        return;
+      }
+      if (node.type === 'tag' && node.name === 'br') {
+        raw.push({ indent: 0, segments: [] });
+        return;
+      }
+      if (node.type === 'tag' && $(node).is(INDENTS)) {
+        line.indent = parseInt(($(node).attr('class') ?? '').match(/indent(\d)/)?.[1] ?? '1');
+      }
+      
+      if (node.type === 'tag' && $(node).is(STRONGS)) {
+        strongs = parseStrongs($(node).attr('data-num')!, strongsPrefix) ?? strongs;
+      }
+      
+      const own = node.type === 'tag'
+        ? INLINE_FORMATS.filter(format => !formats.includes(format) && $(node).is(FORMAT_SELECTORS[format]))
+        : [];
+      (node.children ?? []).forEach((child: any) => collect(child, [...formats, ...own], strongs));
+    };
+    collect($.root()[0], []);
+    
+    // Same fallback as extractCleanText for a verse number left in the text
+    const first = raw.flatMap(line => line.segments).find(segment => segment.text.trim());
+    if (first) {
+      first.text = first.text.replace(/^(\s*)\d+\s*/, '$1');
+    }
+    
+    const segments = normalizeSegments(raw.flatMap(line => line.segments));
+    const lines = buildVerseLines(raw);
+    return {
+      ...(hasMarkup(segments) && segmentsText(segments) === text && { segments }),
+      ...((poetry || lines.length > 1) && linesText(lines) === text && { lines })
+    };
+  }
+
+  private cleanVerseHtml($verse: cheerio.Cheerio<any>): string {
+    // Get a fresh copy of the verse HTML
+    let html = $verse.html() || '';
+    
+    // Remove verse/chapter number spans
+    html = html.replace(/<span class="vref">.*?<\/span>/g, '');
+    
+    // Remove footnote markers
+    html = html.replace(/<sup>.*?<\/sup>/g, '');
+    html = html.replace(/<a[^>]*class="netNoteSuper"[^>]*>.*?<\/a>/g, '');
+    
+    // Keep words on either side of a poetry line break apart
+    html = html.replace(/<br\s*\/?>/gi, ' <br> ');
+    
+    return html;
   }
 }
 
-export function createParser(version: BibleVersion): BibleParser {
-  return new BibleParser(version);
+// Heading text without verse numbers or footnote markers
+function headingText($el: cheerio.Cheerio<any>): string {
+  const $heading = $el.clone();
+  $heading.find('sup, .vref, .netNoteSuper').remove();
+  return $heading.text().replace(/\s+/g, ' ').trim();
+}
+
+// "25" or "G25"; several numbers may share one word. Leading zeros are dropped
+// so the same number always reads the same.
+function parseStrongs(value: string, prefix: string): string[] | undefined {
+  const numbers = value.split(/[\s,]+/)
+    .map(part => part.match(/^([GH])?0*(\d+)$/i))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, letter, number]) => `${(letter ?? prefix).toUpperCase()}${number}`);
+  return numbers.length > 0 ? numbers : undefined;
+}
+
+export function createParser(): BibleParser {
+  return new BibleParser();
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { RateLimitOptions } from '../types/index.js';
+
+export class RateLimiter {
+  private interval: number;
+  private maxInFlight: number;
+  private inFlight = 0;
+  private nextStartAt = 0;
+  private queue: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: RateLimitOptions) {
+    this.interval = 1000 / options.requestsPerSecond;
+    this.maxInFlight = options.maxInFlight;
+  }
+
+  // Run a task once both the per-second budget and an in-flight slot allow it
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await new Promise<void>(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.inFlight--;
+      this.drain();
+    }
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  get active(): number {
+    return this.inFlight;
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+
+    while (this.queue.length > 0 && this.inFlight < this.maxInFlight) {
+      const now = Date.now();
+
+      // Space request starts evenly instead of letting them burst
+      if (now < this.nextStartAt) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, this.nextStartAt - now);
+        return;
+      }
+
+      this.inFlight++;
+      this.nextStartAt = now + this.interval;
+      this.queue.shift()!();
+    }
+  }
+}
+
+export function createRateLimiter(options: RateLimitOptions): RateLimiter {
+  return new RateLimiter(options);
+}
\ No newline at end of file
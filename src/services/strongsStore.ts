@@ -0,0 +1,85 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { BookStrongsIndex, StrongsIndex, StrongsOccurrence } from '../types/index.js';
+import { STRONGS_INDEX_DIR_NAME } from '../utils/constants.js';
+
+// The Strong's numbers of every converted chapter, for --concordance. Kept out
+// of the manifest in one file per book, so recording a chapter only rewrites
+// its own book and the manifest stays small
+export class StrongsStore {
+  private storeDir: string;
+  private books = new Map<string, Promise<BookStrongsIndex>>();
+  private writeChains = new Map<string, Promise<void>>();
+  private writesQueued = new Set<string>();
+
+  constructor(versionDir: string) {
+    this.storeDir = path.join(versionDir, STRONGS_INDEX_DIR_NAME);
+  }
+
+  // Chapters from earlier runs stay in the book's file until they are recorded again
+  async record(book: string, chapter: number, strongs: StrongsIndex): Promise<void> {
+    const index = await this.load(book);
+    index[chapter] = strongs;
+    return this.save(book);
+  }
+
+  // Where each Strong's number occurs in the given chapters, in the order given;
+  // the manifest decides which chapters count
+  async occurrences(books: { name: string; chapters: number[] }[]): Promise<Map<string, StrongsOccurrence[]>> {
+    const occurrences = new Map<string, StrongsOccurrence[]>();
+
+    for (const { name, chapters } of books) {
+      const index = await this.load(name);
+      chapters.forEach(chapter => {
+        Object.entries(index[chapter] ?? {}).forEach(([number, words]) => {
+          const list = occurrences.get(number) ?? [];
+          words.forEach(word => list.push({ book: name, chapter, ...word }));
+          occurrences.set(number, list);
+        });
+      });
+    }
+
+    return occurrences;
+  }
+
+  private load(book: string): Promise<BookStrongsIndex> {
+    let index = this.books.get(book);
+    if (!index) {
+      index = fs.readJson(this.bookPath(book)).catch(() => ({}));
+      this.books.set(book, index);
+    }
+    return index;
+  }
+
+  // Serialized and coalesced per book, like the manifest
+  private save(book: string): Promise<void> {
+    const chain = this.writeChains.get(book) ?? Promise.resolve();
+    if (this.writesQueued.has(book)) {
+      return chain;
+    }
+
+    this.writesQueued.add(book);
+    const write = chain
+      .catch(() => undefined)
+      .then(async () => {
+        this.writesQueued.delete(book);
+        const index = await this.load(book);
+
+        const filePath = this.bookPath(book);
+        await fs.ensureDir(this.storeDir);
+        await fs.writeJson(`${filePath}.tmp`, index);
+        await fs.rename(`${filePath}.tmp`, filePath);
+      });
+
+    this.writeChains.set(book, write);
+    return write;
+  }
+
+  private bookPath(book: string): string {
+    return path.join(this.storeDir, `${book}.json`);
+  }
+}
+
+export function createStrongsStore(versionDir: string): StrongsStore {
+  return new StrongsStore(versionDir);
+}
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { InlineFormat, ParsedBook } from '../types/index.js';
+import { findBookByUsfmCode } from '../utils/books.js';
+import { parseReferences } from '../utils/references.js';
+import { ParsedBookBuilder, cleanText, createBookBuilder } from './bookBuilder.js';
+
+export type MarkerKind = 'heading' | 'title' | 'paragraph' | 'ignored' | 'character';
+
+// Notes are pulled out first and replaced by a placeholder, so the main pass
+// knows which verse each one belongs to
+const NOTE_PATTERN = /\\(f|fe|ef|x|ex)\s([\s\S]*?)\\\1\*/g;
+const NOTE_PLACEHOLDER = /\u0001(\d+)\u0001/g;
+
+// Character spans that aren't part of the verse text (alternate numbering, figures, quoted references)
+const DROPPED_SPANS = /\\(ca|va|vp|rq|fig|cat)\s[\s\S]*?\\\1\*/g;
+// Word-level attributes such as \w grace|strong="G5485"\w*
+const ATTRIBUTES = /\|[^\\]*(?=\\\+?[a-z]+\d*\*)/gi;
+const MARKER = /(\\\+?[a-z]+\d*\*?)/i;
+
+const HEADING_MARKERS = /^(s\d?|ms\d?)$/;
+// Descriptive titles: psalm superscriptions
+const TITLE_MARKERS = /^d$/;
+const PARAGRAPH_MARKERS = /^(p|m|po|pr|cls|pmo|pm|pmc|pmr|pi\d?|mi|nb|pc|ph\d?|b|q\d?|qr|qc|qm\d?|qd|lh|li\d?|lf|lim\d?|tr|th\d?|thr\d?|tc\d?|tcr\d?)$/;
+// Poetry lines: \q1 (or \q) is the first level, \q2 one level in, and so on
+const POETRY_MARKERS = /^(q|qm)(\d?)$|^(qr|qc)$/;
+// Identification, introductions, titles, remarks and labels
+const IGNORED_MARKERS = /^(id|ide|h\d?|toc\d|toca\d|mt\d?|mte\d?|imt\d?|imte\d?|is\d?|ip|ipi|ipq|ipr|iq\d?|im|imi|imq|ili\d?|iot|io\d?|ib|ie|iex|rem|sts|usfm|restore|cl|cp|cd|mr|r|sr|sp|qa|periph|lit)$/;
+
+export const NOTE_TYPES: { [marker: string]: string } = { f: 'fn', fe: 'en', ef: 'fn', x: 'cr', ex: 'cr' };
+
+// Character markers (and USX char styles) that carry inline formatting
+export const FORMAT_MARKERS: { [marker: string]: InlineFormat } = { add: 'added', nd: 'divineName', wj: 'wordsOfJesus' };
+
+// USX reuses the USFM marker names as para and char styles
+export function classifyMarker(marker: string): MarkerKind {
+  if (HEADING_MARKERS.test(marker)) return 'heading';
+  if (TITLE_MARKERS.test(marker)) return 'title';
+  if (PARAGRAPH_MARKERS.test(marker)) return 'paragraph';
+  if (IGNORED_MARKERS.test(marker)) return 'ignored';
+  return 'character';
+}
+
+// Indent level of a poetry paragraph marker, or null for prose
+export function poetryIndent(marker: string): number | null {
+  const match = marker.match(POETRY_MARKERS);
+  if (!match) return null;
+  return match[2] ? Math.max(parseInt(match[2]) - 1, 0) : 0;
+}
+
+// \nb continues the paragraph before it; a stanza break (\b) keeps poetry going
+export function applyParagraphMarker(builder: ParsedBookBuilder, marker: string): void {
+  if (marker === 'nb') return;
+  if (marker === 'b') {
+    builder.startStanza();
+    return;
+  }
+
+  const indent = poetryIndent(marker);
+  if (indent === null) {
+    builder.startParagraph();
+  } else {
+    builder.startPoetryLine(indent);
+  }
+}
+
+export class UsfmParser {
+  // Returns null for files without a recognised \id book code
+  parseBook(usfm: string): ParsedBook | null {
+    const notes: { marker: string; body: string }[] = [];
+    const source = usfm
+      .replace(/\r\n?/g, '\n')
+      .replace(DROPPED_SPANS, '')
+      .replace(ATTRIBUTES, '')
+      .replace(NOTE_PATTERN, (_match, marker, body) => `\u0001${notes.push({ marker, body }) - 1}\u0001`);
+
+    const idMatch = source.match(/\\id\s+(\w{3})/);
+    const bookInfo = idMatch ? findBookByUsfmCode(idMatch[1]) : undefined;
+    if (!bookInfo) return null;
+
+    const builder = createBookBuilder(bookInfo);
+    let target: 'verse' | 'heading' | 'ignore' = 'ignore';
+
+    const append = (text: string) => {
+      if (target === 'heading') {
+        builder.appendTitle(text.replace(NOTE_PLACEHOLDER, ''));
+      } else if (target === 'verse') {
+        builder.appendText(text.replace(NOTE_PLACEHOLDER, (_match, index) => {
+          const { marker, body } = notes[parseInt(index)];
+          this.addNote(builder, marker, body);
+          return '';
+        }));
+      }
+    };
+
+    const parts = source.split(MARKER);
+
+    for (let i = 1; i < parts.length; i += 2) {
+      const marker = parts[i].slice(1).replace(/^\+/, '');
+      const text = parts[i + 1];
+
+      // Closing character markers (\nd*, \wj*) just continue the surrounding text
+      if (marker.endsWith('*')) {
+        const format = FORMAT_MARKERS[marker.slice(0, -1)];
+        if (format) {
+          builder.endFormat(format);
+        }
+        append(text);
+        continue;
+      }
+
+      // Drop the single space that separates a marker from its content
+      const content = text.replace(/^\s/, '');
+
+      if (marker === 'c') {
+        const chapterNum = parseInt(content);
+        if (isNaN(chapterNum)) continue;
+
+        builder.startChapter(chapterNum);
+        target = 'ignore';
+        continue;
+      }
+
+      if (marker === 'v') {
+        const numberMatch = content.match(/^(\d+)\S*\s?/);
+        if (!numberMatch) continue;
+
+        builder.startVerse(parseInt(numberMatch[1]));
+        target = 'verse';
+        append(content.slice(numberMatch[0].length));
+        continue;
+      }
+
+      switch (classifyMarker(marker)) {
+        case 'heading':
+          builder.startSection();
+          target = 'heading';
+          append(content);
+          break;
+
+        case 'title':
+          builder.startDescriptiveTitle();
+          target = 'heading';
+          append(content);
+          break;
+
+        case 'paragraph':
+          applyParagraphMarker(builder, marker);
+          target = builder.inVerse ? 'verse' : 'ignore';
+          append(` ${content}`);
+          break;
+
+        case 'ignored':
+          target = 'ignore';
+          break;
+
+        default:
+          // Character markers (\add, \nd, \wj, \w ...) keep their text
+          if (FORMAT_MARKERS[marker]) {
+            builder.startFormat(FORMAT_MARKERS[marker]);
+          }
+          append(content);
+      }
+    }
+
+    return builder.build();
+  }
+
+  private addNote(builder: ParsedBookBuilder, marker: string, body: string): void {
+    const content = cleanText(body
+      // The caller (+, - or a custom character) comes first
+      .replace(/^\s*\S+/, '')
+      // Origin references like "\fr 3:16" repeat the verse the note is on
+      .replace(/\\(fr|xo)\s[^\\]*/g, '')
+      .replace(/\\\+?[a-z]+\d*\*?/gi, ' '));
+
+    const type = NOTE_TYPES[marker];
+    builder.addNote({
+      type,
+      content,
+      verseReferences: parseReferences(content, type === 'cr' ? builder.book : undefined)
+    });
+  }
+}
+
+export function createUsfmParser(): UsfmParser {
+  return new UsfmParser();
+}
\ No newline at end of file
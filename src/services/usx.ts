@@ -0,0 +1,149 @@
+import * as cheerio from 'cheerio';
+import { ParsedBook, VerseReference } from '../types/index.js';
+import { findBookByUsfmCode } from '../utils/books.js';
+import { parseReferences } from '../utils/references.js';
+import { ParsedBookBuilder, cleanText, createBookBuilder } from './bookBuilder.js';
+import { FORMAT_MARKERS, NOTE_TYPES, classifyMarker, applyParagraphMarker } from './usfm.js';
+
+type Target = 'text' | 'heading';
+
+// Character styles that aren't part of the verse text (alternate numbering, quoted references)
+const DROPPED_CHAR_STYLES = ['ca', 'va', 'vp', 'rq', 'cat'];
+// Note parts that repeat the verse the note is on
+const ORIGIN_CHAR_STYLES = ['fr', 'xo'];
+
+// USX (Paratext XML): one <book> per file, with USFM marker names as styles
+export class UsxParser {
+  // Returns null for files without a recognised <book code>
+  parseBook(xml: string): ParsedBook | null {
+    const $ = cheerio.load(xml, { xml: true });
+    const bookInfo = findBookByUsfmCode($('book').first().attr('code') ?? '');
+    if (!bookInfo) return null;
+
+    const builder = createBookBuilder(bookInfo);
+    this.walk($, $.root().contents().toArray(), builder, 'text');
+    return builder.build();
+  }
+
+  private walk($: cheerio.CheerioAPI, nodes: any[], builder: ParsedBookBuilder, target: Target): void {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        if (target === 'heading') {
+          builder.appendTitle(node.data);
+        } else {
+          builder.appendText(node.data);
+        }
+        continue;
+      }
+      if (node.type !== 'tag') continue;
+
+      const $node = $(node);
+      const style = $node.attr('style') ?? '';
+      const children = $node.contents().toArray();
+
+      switch (node.name) {
+        case 'book':
+        case 'figure':
+        case 'sidebar':
+          break;
+
+        case 'chapter': {
+          const number = parseInt($node.attr('number') ?? '');
+          if (!isNaN(number)) {
+            builder.startChapter(number);
+          }
+          break;
+        }
+
+        case 'verse': {
+          // USX 3 closes verses with an eid milestone; USX 2 only opens them
+          const number = parseInt($node.attr('number') ?? '');
+          if (!isNaN(number)) {
+            // A verse can start inside a descriptive title (Hebrew numbering)
+            builder.startVerse(number);
+            target = 'text';
+          } else if ($node.attr('eid')) {
+            builder.endVerse();
+          }
+          break;
+        }
+
+        case 'para': {
+          const kind = classifyMarker(style);
+          if (kind === 'heading') {
+            builder.startSection();
+            this.walk($, children, builder, 'heading');
+          } else if (kind === 'title') {
+            builder.startDescriptiveTitle();
+            this.walk($, children, builder, 'heading');
+          } else if (kind !== 'ignored') {
+            if (kind === 'paragraph') applyParagraphMarker(builder, style);
+            builder.appendText(' ');
+            this.walk($, children, builder, target);
+            builder.appendText(' ');
+          }
+          break;
+        }
+
+        case 'note':
+          if (target === 'text') {
+            this.addNote($, $node, builder);
+          }
+          break;
+
+        case 'char': {
+          if (DROPPED_CHAR_STYLES.includes(style)) break;
+
+          const format = FORMAT_MARKERS[style];
+          if (format) builder.startFormat(format);
+          this.walk($, children, builder, target);
+          if (format) builder.endFormat(format);
+          break;
+        }
+
+        default:
+          this.walk($, children, builder, target);
+      }
+    }
+  }
+
+  private addNote($: cheerio.CheerioAPI, $note: cheerio.Cheerio<any>, builder: ParsedBookBuilder): void {
+    const type = NOTE_TYPES[$note.attr('style') ?? ''] ?? 'fn';
+    const $content = $note.clone();
+    ORIGIN_CHAR_STYLES.forEach(style => $content.find(`char[style="${style}"]`).remove());
+    const content = cleanText($content.text());
+
+    // USX 3 marks cross-references with <ref loc="GEN 1:1">
+    const references = $note.find('ref[loc]').toArray()
+      .map(ref => parseLoc($(ref).attr('loc')!, $(ref).text()))
+      .filter((ref): ref is VerseReference => ref !== null);
+
+    builder.addNote({
+      type,
+      content,
+      verseReferences: references.length > 0
+        ? references
+        : parseReferences(content, type === 'cr' ? builder.book : undefined)
+    });
+  }
+}
+
+// "GEN 1:1", "JHN 3:16-18" or a whole chapter such as "PSA 23"
+function parseLoc(loc: string, display: string): VerseReference | null {
+  const match = loc.match(/^(\w{3}) (\d+)(?::(\d+)(?:-(\d+))?)?/);
+  const book = match ? findBookByUsfmCode(match[1]) : undefined;
+  if (!match || !book) return null;
+
+  const [, , chapter, verse, endVerse] = match;
+  return {
+    book: book.name,
+    chapter: parseInt(chapter),
+    verse: verse ? parseInt(verse) : undefined,
+    endVerse: endVerse ? parseInt(endVerse) : undefined,
+    display: display.trim() || loc
+  };
+}
+
+export function createUsxParser(): UsxParser {
+  return new UsxParser();
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { BibleVersion, BibleVersionInfo, SetupConfig, SourceName, VersionDefinition } from '../types/index.js';
+import { BIBLE_VERSIONS } from '../utils/constants.js';
+
+// The versions bible2md knows how to convert: the built-in netbible.org ones
+// plus any declared under "versions" in a config file, which win on a clash
+export class VersionRegistry {
+  private versions = new Map<BibleVersion, BibleVersionInfo>();
+
+  constructor(definitions: VersionDefinition[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  register(definition: VersionDefinition): BibleVersionInfo {
+    const version = withDefaults(definition);
+    this.versions.set(version.code, version);
+    return version;
+  }
+
+  get(code: BibleVersion): BibleVersionInfo | undefined {
+    return this.versions.get(code);
+  }
+
+  list(source?: SourceName): BibleVersionInfo[] {
+    return [...this.versions.values()].filter(version => !source || version.source === source);
+  }
+}
+
+export function createVersionRegistry(definitions: VersionDefinition[] = []): VersionRegistry {
+  return new VersionRegistry([...BIBLE_VERSIONS, ...definitions]);
+}
+
+// A registry entry supplies --source and --input when they weren't given,
+// so `-v KJV` alone is enough once KJV is registered
+export function applyVersionDefaults(config: SetupConfig): SetupConfig {
+  const registered = createVersionRegistry(config.versions).get(config.version);
+  if (!registered || (config.source && config.source !== registered.source)) {
+    return config;
+  }
+
+  return {
+    ...config,
+    source: config.source ?? registered.source,
+    input: config.input ?? registered.input
+  };
+}
+
+// The entry for this run. Local sources can convert unregistered versions,
+// which get the registry defaults; netbible.org can't.
+export function resolveVersion(config: SetupConfig): BibleVersionInfo | undefined {
+  const registry = createVersionRegistry(config.versions);
+  const source = config.source ?? 'netbible';
+  const registered = registry.get(config.version);
+
+  if (registered?.source === source) {
+    return registered;
+  }
+  if (source === 'netbible') {
+    return undefined;
+  }
+  return withDefaults({ code: config.version, name: config.version, source });
+}
+
+function withDefaults(definition: VersionDefinition): BibleVersionInfo {
+  return {
+    description: '',
+    footnotes: true,
+    copyright: '',
+    versification: 'english',
+    ...definition
+  };
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { BibleSource, SetupConfig, SourceName } from '../types/index.js';
+import { createNetBibleSource, validateNetBibleConfig } from './netbible.js';
+import { validateLocalConfig } from './local.js';
+import { createOsisSource } from './osis.js';
+import { createUsfmSource } from './usfm.js';
+import { createUsxSource } from './usx.js';
+
+interface SourceProvider {
+  create: (config: SetupConfig) => BibleSource;
+  // Returns a usage problem, such as a missing --input, or null
+  validate: (config: SetupConfig) => string | null;
+}
+
+const SOURCE_PROVIDERS: { [name in SourceName]: SourceProvider } = {
+  netbible: { create: createNetBibleSource, validate: validateNetBibleConfig },
+  usfm: { create: createUsfmSource, validate: validateLocalConfig },
+  usx: { create: createUsxSource, validate: validateLocalConfig },
+  osis: { create: createOsisSource, validate: validateLocalConfig }
+};
+
+export function validateSourceConfig(config: SetupConfig): string | null {
+  return SOURCE_PROVIDERS[config.source ?? 'netbible'].validate(config);
+}
+
+export function createBibleSource(config: SetupConfig): BibleSource {
+  const problem = validateSourceConfig(config);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return SOURCE_PROVIDERS[config.source ?? 'netbible'].create(config);
+}
\ No newline at end of file
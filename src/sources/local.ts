@@ -0,0 +1,117 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { BibleSource, ParsedBook, ParsedChapter, ParsedFootnote, SetupConfig, SourceName } from '../types/index.js';
+
+// Shared by the sources that read Bible text from disk: --input is either a
+// single file or a directory of files, all parsed once and kept in memory
+export abstract class LocalFileSource implements BibleSource {
+  abstract readonly name: SourceName;
+  protected abstract readonly extensions: string[];
+  private inputPath: string;
+  private footnotes: boolean;
+  private books: Promise<Map<string, ParsedBook>> | null = null;
+
+  constructor(inputPath: string, footnotes: boolean = true) {
+    this.inputPath = inputPath;
+    this.footnotes = footnotes;
+  }
+
+  protected abstract parseFile(content: string): ParsedBook[];
+
+  async listBooks(): Promise<string[]> {
+    return [...(await this.load()).keys()];
+  }
+
+  // A file may hold only part of a book
+  async listChapters(book: string): Promise<number[]> {
+    return (await this.load()).get(book)?.chapters.map(chapter => chapter.chapter) ?? [];
+  }
+
+  async fetchChapters(book: string, chapters: number[]): Promise<ParsedChapter[]> {
+    const parsed = (await this.load()).get(book);
+    if (!parsed) {
+      throw new Error(`${book} is not in ${this.inputPath}`);
+    }
+    return parsed.chapters.filter(chapter => chapters.includes(chapter.chapter));
+  }
+
+  hasFootnotes(): boolean {
+    return this.footnotes;
+  }
+
+  async fetchFootnotes(book: string, chapter: number): Promise<ParsedFootnote[]> {
+    return (await this.load()).get(book)?.footnotes[chapter] ?? [];
+  }
+
+  private load(): Promise<Map<string, ParsedBook>> {
+    this.books ??= this.readBooks();
+    return this.books;
+  }
+
+  private async readBooks(): Promise<Map<string, ParsedBook>> {
+    const books = new Map<string, ParsedBook>();
+
+    for (const file of await this.inputFiles()) {
+      for (const parsed of this.parseFile(await fs.readFile(file, 'utf8'))) {
+        const existing = books.get(parsed.book);
+        books.set(parsed.book, existing ? mergeBooks(existing, parsed) : parsed);
+      }
+    }
+
+    if (books.size === 0) {
+      throw new Error(`No Bible books found in ${this.inputPath}`);
+    }
+    return books;
+  }
+
+  private async inputFiles(): Promise<string[]> {
+    if (!(await fs.stat(this.inputPath)).isDirectory()) {
+      return [this.inputPath];
+    }
+
+    const files = (await fs.readdir(this.inputPath))
+      .filter(file => this.extensions.includes(path.extname(file).toLowerCase()))
+      .sort();
+
+    if (files.length === 0) {
+      throw new Error(`No ${this.extensions.join(' or ')} files found in ${this.inputPath}`);
+    }
+    return files.map(file => path.join(this.inputPath, file));
+  }
+}
+
+// A book may be split across files, e.g. one per chapter; a chapter found in
+// more than one file keeps its parts in file order
+function mergeBooks(existing: ParsedBook, parsed: ParsedBook): ParsedBook {
+  const chapters = new Map(existing.chapters.map(chapter => [chapter.chapter, chapter]));
+  const footnotes = { ...existing.footnotes };
+
+  parsed.chapters.forEach(chapter => {
+    const earlier = chapters.get(chapter.chapter);
+    chapters.set(chapter.chapter, earlier
+      ? { ...earlier, title: earlier.title ?? chapter.title, sections: [...earlier.sections, ...chapter.sections] }
+      : chapter);
+  });
+  Object.entries(parsed.footnotes).forEach(([chapter, notes]) => {
+    footnotes[Number(chapter)] = [...footnotes[Number(chapter)] ?? [], ...notes];
+  });
+
+  return {
+    book: existing.book,
+    chapters: [...chapters.values()].sort((a, b) => a.chapter - b.chapter),
+    footnotes
+  };
+}
+
+export function validateLocalConfig(config: SetupConfig): string | null {
+  if (!config.input) {
+    return `The ${config.source} source needs --input <path> pointing at a file or folder`;
+  }
+  if (!fs.existsSync(config.input)) {
+    return `Input ${config.input} does not exist`;
+  }
+  if (config.parallel) {
+    return 'Parallel output needs both translations from netbible.org; drop --parallel or use --source netbible';
+  }
+  return null;
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { BibleSource, BibleVersionInfo, ParsedChapter, ParsedFootnote, SetupConfig, SourceName } from '../types/index.js';
+import { BibleApiService, createBibleApi } from '../services/api.js';
+import { createResponseCache } from '../services/cache.js';
+import { BibleParser, createParser } from '../services/parser.js';
+import { FootnotesParser, createFootnotesParser } from '../services/footnotes.js';
+import { createVersionRegistry, resolveVersion } from '../services/versions.js';
+import { BIBLE_BOOKS, SPEED_PRESETS } from '../utils/constants.js';
+import { findBookByName } from '../utils/books.js';
+
+// netbible.org: chapter text from netTexts and NET study notes from netNotes
+export class NetBibleSource implements BibleSource {
+  readonly name: SourceName = 'netbible';
+  private version: BibleVersionInfo;
+  private translation: string;
+  private companion: BibleVersionInfo;
+  private parallel: boolean;
+  private api: BibleApiService;
+  private parser: BibleParser;
+  private footnotesParser: FootnotesParser;
+
+  // netTexts returns a second translation with every request; any other
+  // netbible.org version will do, and parallel output keeps it
+  constructor(version: BibleVersionInfo, api: BibleApiService, companion: BibleVersionInfo, parallel: boolean = false) {
+    // Every netbible.org request names its translation; there is no default to fall back on
+    if (!version.translation) {
+      throw new Error(`Version "${version.code}" has no netbible.org translation`);
+    }
+    this.version = version;
+    this.translation = version.translation;
+    this.companion = companion;
+    this.parallel = parallel;
+    this.api = api;
+    this.parser = createParser();
+    this.footnotesParser = createFootnotesParser();
+  }
+
+  async listBooks(): Promise<string[]> {
+    return BIBLE_BOOKS.map(book => book.name);
+  }
+
+  async listChapters(book: string): Promise<number[]> {
+    const chapters = findBookByName(book)?.chapters ?? 0;
+    return Array.from({ length: chapters }, (_, idx) => idx + 1);
+  }
+
+  async fetchChapters(book: string, chapters: number[]): Promise<ParsedChapter[]> {
+    // Only the requested chapters are kept, whatever the response contains
+    const apiResponses = await this.api.fetchBookChapters(book, chapters, this.translation, this.companion.translation ?? this.translation, 20);
+    const parsed: ParsedChapter[] = [];
+
+    for (const apiResponse of apiResponses) {
+      const companionChapters = this.parallel ? this.parser.parseChapters(apiResponse.bible2) : [];
+
+      for (const chapter of this.parser.parseChapters(apiResponse.bible1)) {
+        if (!chapters.includes(chapter.chapter)) continue;
+
+        const companion = companionChapters.find(other => other.chapter === chapter.chapter);
+        if (companion) {
+          chapter.parallel = { version: this.companion.code, sections: companion.sections };
+        }
+        parsed.push(chapter);
+      }
+    }
+
+    return parsed;
+  }
+
+  hasFootnotes(): boolean {
+    return this.version.footnotes;
+  }
+
+  async fetchFootnotes(book: string, chapter: number): Promise<ParsedFootnote[]> {
+    const footnotesHtml = await this.api.fetchFootnotes(book, chapter, this.translation);
+    return this.footnotesParser.parseFootnotes(footnotesHtml);
+  }
+}
+
+export function validateNetBibleConfig(config: SetupConfig): string | null {
+  if (!resolveVersion(config)) {
+    const codes = createVersionRegistry(config.versions).list('netbible').map(version => version.code).join(' or ');
+    return `netbible.org does not have version "${config.version}" (choose ${codes})`;
+  }
+  if (config.offline && config.cache === false) {
+    return 'Offline mode needs the response cache; remove --no-cache';
+  }
+  return null;
+}
+
+export function createNetBibleSource(config: SetupConfig): NetBibleSource {
+  const preset = SPEED_PRESETS[config.speedMode || 'balanced'];
+  const api = createBibleApi({
+    cache: config.cache === false ? undefined : createResponseCache(config.cacheDir),
+    offline: config.offline,
+    retry: config.retries !== undefined ? { retries: config.retries } : undefined,
+    rateLimit: {
+      requestsPerSecond: config.requestsPerSecond ?? preset.requestsPerSecond,
+      maxInFlight: config.maxInFlight ?? preset.maxInFlight
+    }
+  });
+
+  const version = resolveVersion(config)!;
+  const companion = createVersionRegistry(config.versions).list('netbible')
+    .find(other => other.translation && other.translation !== version.translation) ?? version;
+
+  return new NetBibleSource(version, api, companion, config.parallel !== undefined);
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { ParsedBook, SetupConfig, SourceName } from '../types/index.js';
+import { OsisParser, createOsisParser } from '../services/osis.js';
+import { resolveVersion } from '../services/versions.js';
+import { LocalFileSource } from './local.js';
+
+// OSIS XML, usually the whole Bible in one file
+export class OsisSource extends LocalFileSource {
+  readonly name: SourceName = 'osis';
+  protected readonly extensions = ['.osis', '.xml'];
+  private parser: OsisParser = createOsisParser();
+
+  protected parseFile(content: string): ParsedBook[] {
+    return this.parser.parseBooks(content);
+  }
+}
+
+export function createOsisSource(config: SetupConfig): OsisSource {
+  return new OsisSource(config.input!, resolveVersion(config)!.footnotes);
+}
\ No newline at end of file
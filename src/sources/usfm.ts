@@ -0,0 +1,20 @@
+import { ParsedBook, SetupConfig, SourceName } from '../types/index.js';
+import { UsfmParser, createUsfmParser } from '../services/usfm.js';
+import { resolveVersion } from '../services/versions.js';
+import { LocalFileSource } from './local.js';
+
+// .usfm/.sfm files, one book per file
+export class UsfmSource extends LocalFileSource {
+  readonly name: SourceName = 'usfm';
+  protected readonly extensions = ['.usfm', '.sfm'];
+  private parser: UsfmParser = createUsfmParser();
+
+  protected parseFile(content: string): ParsedBook[] {
+    const parsed = this.parser.parseBook(content);
+    return parsed ? [parsed] : [];
+  }
+}
+
+export function createUsfmSource(config: SetupConfig): UsfmSource {
+  return new UsfmSource(config.input!, resolveVersion(config)!.footnotes);
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { ParsedBook, SetupConfig, SourceName } from '../types/index.js';
+import { UsxParser, createUsxParser } from '../services/usx.js';
+import { resolveVersion } from '../services/versions.js';
+import { LocalFileSource } from './local.js';
+
+// Paratext USX files, one book per file
+export class UsxSource extends LocalFileSource {
+  readonly name: SourceName = 'usx';
+  protected readonly extensions = ['.usx', '.xml'];
+  private parser: UsxParser = createUsxParser();
+
+  protected parseFile(content: string): ParsedBook[] {
+    const parsed = this.parser.parseBook(content);
+    return parsed ? [parsed] : [];
+  }
+}
+
+export function createUsxSource(config: SetupConfig): UsxSource {
+  return new UsxSource(config.input!, resolveVersion(config)!.footnotes);
+}
\ No newline at end of file
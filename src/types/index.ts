@@ -2,32 +2,110 @@ export interface SetupConfig {
   version: BibleVersion;
   style: OutputStyle;
   outputDir: string;
-  speedMode?: 'fast' | 'balanced';
+  speedMode?: SpeedMode;
+  books?: string[];
+  cache?: boolean;
+  cacheDir?: string;
+  offline?: boolean;
+  retries?: number;
+  requestsPerSecond?: number;
+  maxInFlight?: number;
+  source?: SourceName;
+  input?: string; // File or directory read by local sources
+  resume?: boolean;
+  force?: boolean;
+  versions?: VersionDefinition[]; // Registry entries added by a config file
+  parallel?: ParallelLayout; // Show the companion netbible.org translation beside each verse
+  strongs?: StrongsMode; // Show the Strong's numbers of the NET text
+  concordance?: boolean; // Write a note per Strong's number listing every verse it occurs in
+  backlinks?: boolean; // List under each chapter the notes of other chapters that refer to it
+  graph?: GraphFormat[]; // Export the cross-references of the notes in these formats
+  strict?: boolean; // Fail the run when a chapter's verses don't match the versification
+  noteTypes?: string[]; // Footnote types to keep, e.g. ['sn', 'tn']; all when unset
+  noteLayout?: NoteLayout;
+  originalLanguage?: FormatMode; // How Greek and Hebrew words in footnotes are marked
+  formatting?: FormattingConfig;
 }
 
-export type BibleVersion = 'NET' | 'NASB';
+// Everything a bible2md.config.json may set; command-line flags take precedence.
+// resume and force only make sense for a single run, so they are flags only.
+export type ProjectConfig = Partial<Omit<SetupConfig, 'resume' | 'force'>>;
+
+export type SpeedMode = 'fast' | 'balanced';
+
+// A code from the version registry, or any code for a translation read from disk
+export type BibleVersion = string;
+
+export type OutputStyle = 'study' | 'simple' | 'manual' | 'reading';
+
+export type ParallelLayout = 'table' | 'alternating';
+
+// How Strong's numbers from net_strongs2 appear in chapter files
+export type StrongsMode = 'links' | 'footnotes';
 
-export type OutputStyle = 'study' | 'simple' | 'manual';
+// Notes as markdown footnotes, as callouts after the verse they belong to,
+// or gathered in one collapsed callout at the end of the chapter
+export type NoteLayout = 'footnotes' | 'callouts' | 'collapsed';
+
+export interface NoteTypeInfo {
+  name: string; // e.g. "Translator's note"
+  callout: string; // Obsidian callout type, e.g. note or info
+}
+
+// Inline markup kept from the source text: words the translators supplied,
+// the divine name (small-caps LORD) and red-letter words of Jesus
+export type InlineFormat = 'added' | 'divineName' | 'wordsOfJesus';
+
+// off drops the markup, markdown uses emphasis (capitals for the divine name),
+// html wraps the words in a <span> with a CSS class
+export type FormatMode = 'off' | 'markdown' | 'html';
+
+export type InlineFormatting = { [format in InlineFormat]: FormatMode };
+
+// Per-style overrides of DEFAULT_FORMATTING, plus the classes html mode uses
+export interface FormattingConfig {
+  study?: Partial<InlineFormatting>;
+  simple?: Partial<InlineFormatting>;
+  reading?: Partial<InlineFormatting>;
+  manual?: Partial<InlineFormatting>;
+  classes?: Partial<{ [format in InlineFormat]: string }>;
+}
+
+// Verse numbering scheme: English Bibles, or the Hebrew/Greek originals
+export type Versification = 'english' | 'original';
 
 export interface BibleVersionInfo {
   code: BibleVersion;
   name: string;
   description: string;
+  source: SourceName;
+  translation?: string; // netbible.org translation code, e.g. net_strongs2
+  input?: string; // Default --input for local sources
+  footnotes: boolean;
+  copyright: string;
+  versification: Versification;
 }
 
+// A registry entry as written in a config file; the rest have defaults
+export type VersionDefinition = Pick<BibleVersionInfo, 'code' | 'name' | 'source'> & Partial<BibleVersionInfo>;
+
 export interface StyleInfo {
   code: OutputStyle;
   name: string;
   description: string;
 }
 
-export interface ConversionOptions {
-  version: BibleVersion;
-  style: OutputStyle;
-  outputDir: string;
-  books?: string[];
-  force?: boolean;
-  concurrent?: number;
+export type SourceName = 'netbible' | 'usfm' | 'usx' | 'osis';
+
+// Where chapter text and footnotes come from; the converter and markdown
+// generator only ever see the parsed results
+export interface BibleSource {
+  readonly name: SourceName;
+  listBooks(): Promise<string[]>;
+  listChapters(book: string): Promise<number[]>;
+  fetchChapters(book: string, chapters: number[]): Promise<ParsedChapter[]>;
+  hasFootnotes(): boolean;
+  fetchFootnotes(book: string, chapter: number): Promise<ParsedFootnote[]>;
 }
 
 export interface ApiResponse {
@@ -35,31 +113,214 @@ export interface ApiResponse {
   bible2: string;
 }
 
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number;
+}
+
+export interface RateLimitOptions {
+  requestsPerSecond: number;
+  maxInFlight: number;
+}
+
+export interface CacheKey {
+  kind: 'text' | 'notes';
+  book: string;
+  chapters: number[];
+  translation: string;
+}
+
+export interface CacheStats {
+  entries: number;
+  size: number;
+  byKind: { [kind: string]: number };
+  byTranslation: { [translation: string]: number };
+  oldest?: string;
+  newest?: string;
+}
+
+export interface ChapterSummary {
+  chapter: number;
+  verses: number;
+  title?: string;
+}
+
+export interface ManifestChapterEntry extends ChapterSummary {
+  book: string;
+  hash: string; // sha256 of the chapter file as written
+  completedAt: string;
+  partial?: boolean; // Written without its footnotes, so --resume redoes it
+  references?: NoteReference[]; // Only recorded for --backlinks
+  paragraphs?: string[]; // Reading style's paragraph block IDs, e.g. "16-21"
+}
+
+// Where a link to a verse points after the "#": its heading ("16"), the block
+// of the paragraph holding it ("^16-21"), or nowhere to link the whole chapter
+export type VerseAnchor = (book: string, chapter: number, verse: number) => string | undefined;
+
+// A verse reference made by one of a chapter's footnotes
+export interface NoteReference {
+  verse?: number; // The verse the note belongs to
+  book: string;
+  chapter: number;
+  toVerse?: number; // Unset when the whole chapter is referred to
+  type: string; // Of the note, e.g. 'sn'
+  note: string; // The note's id, e.g. 'note_12'
+}
+
+// A note reference together with the chapter the note is in
+export interface CrossReference extends NoteReference {
+  fromBook: string;
+  fromChapter: number;
+}
+
+export type GraphFormat = 'dot' | 'graphml' | 'json';
+
+// What a node stands for: a verse (or a whole chapter a note refers to), a chapter or a book
+export type GraphLevel = 'verse' | 'chapter' | 'book';
+
+export interface GraphNode {
+  id: string; // "John 3:16", "John 3" or "John"
+  book: string;
+  chapter?: number;
+  verse?: number;
+}
+
+// One reference made by one note; coarser levels keep every reference as its own edge
+export interface GraphEdge {
+  source: string;
+  target: string;
+  type: string;
+  note: string; // Qualified by its chapter, e.g. "Romans 5#note_12"
+  from: string; // The verse the note belongs to, e.g. "Romans 5:8"
+  to: string; // The verse or chapter referred to, e.g. "John 3:16"
+}
+
+export interface CrossReferenceGraph {
+  level: GraphLevel;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// A note elsewhere that refers to a chapter, seen from that chapter
+export interface Backlink {
+  book: string;
+  chapter: number;
+  verse?: number; // The verse the note belongs to
+  toVerse?: number; // The verse of this chapter it refers to
+}
+
+// The words of a chapter tagged with each Strong's number
+export type StrongsIndex = { [number: string]: StrongsWord[] };
+
+// The Strong's numbers of a book's chapters, stored for --concordance
+export type BookStrongsIndex = { [chapter: number]: StrongsIndex };
+
+export interface StrongsWord {
+  verse: number;
+  word: string;
+}
+
+export interface StrongsOccurrence extends StrongsWord {
+  book: string;
+  chapter: number;
+}
+
+// How a converted chapter's verse numbers compare with its versification
+export interface ChapterValidation {
+  book: string;
+  chapter: number;
+  expected?: number; // Unset when the versification has no such chapter
+  verses: number;
+  missing: number[];
+  duplicated: number[];
+  outOfOrder: number[];
+  unexpected: number[]; // Beyond the last verse of the chapter
+  absent?: boolean; // Requested, but the source never returned it
+}
+
+// The validation report, written after every run
+export interface ValidationReport {
+  version: BibleVersion;
+  versification: Versification;
+  checkedAt: string;
+  chapters: number; // Chapters converted (and so checked) by the run
+  problems: ChapterValidation[];
+}
+
+export interface ConversionManifest {
+  format: number;
+  fingerprint: string; // Settings the chapters were generated with
+  createdAt: string;
+  updatedAt: string;
+  chapters: { [key: string]: ManifestChapterEntry };
+}
+
 export interface ParsedVerse {
   number: number;
   text: string;
   id: string;
   footnotes?: ParsedFootnote[];
   footnoteNumbers?: number[];
+  segments?: TextSegment[]; // Only set when part of the verse is formatted
+  lines?: VerseLine[]; // Only set for poetry
+  title?: string; // A superscription the source puts inside the verse
+}
+
+// One line of poetry; the lines of a verse join up to its text with spaces
+export interface VerseLine {
+  text: string;
+  indent: number; // 0 for a first-level line, 1 for the next level in, ...
+  segments?: TextSegment[];
+}
+
+// A run of verse text; the segments of a verse join up to its text
+export interface TextSegment {
+  text: string;
+  formats: InlineFormat[];
+  strongs?: string[]; // Strong's numbers of the word(s), e.g. ['G25']
 }
 
 export interface ParsedFootnote {
   id: string;
   number: number;
   type: string; // 'tn', 'tc', 'sn', etc.
-  content: string;
+  content: string; // Markdown; <data ref> references and <span lang> original-language words are left as HTML
   verseReferences: VerseReference[];
+  verse?: number; // The verse whose footnoteNumbers mark the note
 }
 
 export interface ParsedChapter {
   book: string;
   chapter: number;
-  title?: string;
+  title?: string; // Superscription or heading before the first verse, e.g. "A psalm of David."
+  sections: ParsedSection[];
+  parallel?: ParallelText;
+}
+
+// The same chapter in a second translation, for parallel output
+export interface ParallelText {
+  version: BibleVersion;
   sections: ParsedSection[];
 }
 
+// One book read from a local file, with its notes grouped by chapter
+export interface ParsedBook {
+  book: string;
+  chapters: ParsedChapter[];
+  footnotes: { [chapter: number]: ParsedFootnote[] };
+}
+
 export interface ParsedSection {
   title?: string;
+  paragraphs: ParsedParagraph[];
+}
+
+// Verses set as one paragraph in the source (or one stanza of poetry). A verse
+// that runs on into the next paragraph stays with the one it starts in.
+export interface ParsedParagraph {
   verses: ParsedVerse[];
 }
 
@@ -67,12 +328,31 @@ export interface BibleBook {
   name: string;
   chapters: number;
   testament: 'Old' | 'New';
+  usfm: string; // Paratext book code, e.g. GEN or 1CO
+  osis: string; // OSIS book name, e.g. Gen or 1Cor
+  sbl: string; // SBL Handbook abbreviation, e.g. Gen or 1 Cor
+  netbible: string; // netbible.org's code in note references, e.g. Ge or 1Co
+  aliases: string[]; // Other names and abbreviations in common use
+  order: number; // Position in the canon, from 1 (Genesis) to 66 (Revelation)
 }
 
+export interface BookSelection {
+  name: string;
+  chapters: number[];
+}
+
+// A verse, verse range or chapter; ranges may cross chapters (Gen 1:1–2:3)
 export interface VerseReference {
   book: string;
   chapter: number;
-  verse?: number;
+  verse?: number; // Unset for a whole chapter
+  endChapter?: number; // Only set when the range ends in a later chapter
   endVerse?: number;
   display: string; // Original text display
+}
+
+// A reference found in free text, and where it starts
+export interface ReferenceMatch {
+  reference: VerseReference;
+  index: number;
 }
\ No newline at end of file
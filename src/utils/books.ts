@@ -0,0 +1,51 @@
+import { BibleBook } from '../types/index.js';
+import { BIBLE_BOOKS } from './constants.js';
+
+// Every name, code and alias of every book, so a lookup doesn't need to know
+// which scheme (USFM, OSIS, SBL, netbible.org) the text came from
+const BOOKS_BY_KEY = new Map<string, BibleBook>(
+  BIBLE_BOOKS.flatMap(book =>
+    [book.name, book.usfm, book.osis, book.sbl, book.netbible, ...book.aliases].map(key => [normalize(key), book] as const)
+  )
+);
+
+export function findBookByName(name: string): BibleBook | undefined {
+  return BIBLE_BOOKS.find(book => book.name === name);
+}
+
+export function findBookByUsfmCode(code: string): BibleBook | undefined {
+  const normalized = code.trim().toUpperCase();
+  return BIBLE_BOOKS.find(book => book.usfm === normalized);
+}
+
+export function findBookByOsisCode(code: string): BibleBook | undefined {
+  return BIBLE_BOOKS.find(book => book.osis === code.trim());
+}
+
+// Full names, codes from any scheme, aliases and unambiguous abbreviations
+// of a full name ("Gen", "1CO", "Jn", "Revelations", "Philipp")
+export function findBook(text: string): BibleBook | undefined {
+  const normalized = normalize(text);
+  if (!normalized) return undefined;
+
+  const exact = BOOKS_BY_KEY.get(normalized);
+  if (exact) return exact;
+
+  const prefixed = BIBLE_BOOKS.filter(book => normalize(book.name).startsWith(normalized));
+  return normalized.length >= 2 && prefixed.length === 1 ? prefixed[0] : undefined;
+}
+
+// Only a full name or an alias ("Isaiah", "Psalm"), not a code that is also
+// an ordinary word ("Is", "Am")
+export function findBookByNameOrAlias(text: string): BibleBook | undefined {
+  const normalized = normalize(text);
+  return BIBLE_BOOKS.find(book => [book.name, ...book.aliases].some(key => normalize(key) === normalized));
+}
+
+export function resolveBookName(text: string): string | undefined {
+  return findBook(text)?.name;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[.\s]/g, '');
+}
\ No newline at end of file
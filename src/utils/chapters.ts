@@ -0,0 +1,78 @@
+import { NoteReference, ParsedChapter, ParsedFootnote, ParsedParagraph, ParsedSection, ParsedVerse, StrongsIndex } from '../types/index.js';
+
+// Every verse of a section (or of all sections), paragraphs flattened
+export function sectionVerses(section: ParsedSection): ParsedVerse[] {
+  return section.paragraphs.flatMap(paragraph => paragraph.verses);
+}
+
+export function chapterVerses(sections: ParsedSection[]): ParsedVerse[] {
+  return sections.flatMap(sectionVerses);
+}
+
+// Reading style's block ID for a paragraph: its verse range, e.g. "16-21"
+export function paragraphBlockId({ verses }: ParsedParagraph): string {
+  const first = verses[0].number;
+  const last = verses[verses.length - 1].number;
+  return first === last ? `${first}` : `${first}-${last}`;
+}
+
+export function paragraphBlockIds(sections: ParsedSection[]): string[] {
+  return sections.flatMap(section => section.paragraphs.map(paragraphBlockId));
+}
+
+// The link anchor of the paragraph a verse is in, e.g. "^16-21"
+export function paragraphAnchor(blockIds: string[], verse: number): string | undefined {
+  const blockId = blockIds.find(id => {
+    const [first, last = first] = id.split('-').map(Number);
+    return verse >= first && verse <= last;
+  });
+  return blockId && `^${blockId}`;
+}
+
+// Tagged words in verse order, for the concordance
+export function chapterStrongs(sections: ParsedSection[]): StrongsIndex {
+  const index: StrongsIndex = {};
+
+  chapterVerses(sections).forEach(verse => {
+    (verse.segments ?? []).forEach(segment => {
+      segment.strongs?.forEach(number => {
+        (index[number] ??= []).push({ verse: verse.number, word: segment.text.trim() });
+      });
+    });
+  });
+
+  return index;
+}
+
+// Where the notes point, for backlinks and the cross-reference graph; a range
+// counts as its first verse, as the links in the notes do
+export function noteReferences(footnotes: ParsedFootnote[]): NoteReference[] {
+  return footnotes.flatMap(footnote => footnote.verseReferences.map(reference => ({
+    ...(footnote.verse !== undefined && { verse: footnote.verse }),
+    book: reference.book,
+    chapter: reference.chapter,
+    ...(reference.verse !== undefined && { toVerse: reference.verse }),
+    type: footnote.type,
+    note: footnote.id
+  })));
+}
+
+// Notes fetched apart from the text (netbible.org) learn their verse from
+// the markers in it; notes no verse marks are left without one
+export function attachFootnotes(sections: ParsedSection[], footnotes: ParsedFootnote[]): ParsedFootnote[] {
+  const verseOf = new Map<number, number>();
+  chapterVerses(sections).forEach(verse => {
+    verse.footnoteNumbers?.forEach(number => verseOf.set(number, verse.number));
+  });
+
+  return footnotes.map(footnote => {
+    const verse = footnote.verse ?? verseOf.get(footnote.number);
+    return verse === undefined ? footnote : { ...footnote, verse };
+  });
+}
+
+// What the book index shows for a chapter: its own title, or the
+// superscription its first verse carries
+export function chapterTitle(chapter: ParsedChapter): string | undefined {
+  return chapter.title ?? chapterVerses(chapter.sections)[0]?.title;
+}
\ No newline at end of file
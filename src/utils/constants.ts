@@ -1,15 +1,26 @@
-import { BibleVersionInfo, StyleInfo } from '../types/index.js';
+import { BibleBook, BibleVersionInfo, FormatMode, InlineFormat, InlineFormatting, GraphFormat, GraphLevel, NoteLayout, NoteTypeInfo, OutputStyle, ParallelLayout, RateLimitOptions, RetryOptions, SetupConfig, SourceName, SpeedMode, StrongsMode, StyleInfo, Versification } from '../types/index.js';
+import packageInfo from './packageInfo.js';
 
 export const BIBLE_VERSIONS: BibleVersionInfo[] = [
   {
     code: 'NET',
     name: 'New English Translation',
-    description: 'Modern translation with extensive translator notes'
+    description: 'Modern translation with extensive translator notes',
+    source: 'netbible',
+    translation: 'net_strongs2',
+    footnotes: true,
+    copyright: 'Scripture quoted by permission. Quotations designated (NET) are from the NET Bible® copyright ©1996-2019 by Biblical Studies Press, L.L.C. http://netbible.com All rights reserved.',
+    versification: 'english'
   },
   {
     code: 'NASB',
     name: 'New American Standard Bible',
-    description: 'Literal translation emphasizing accuracy to original texts'
+    description: 'Literal translation emphasizing accuracy to original texts',
+    source: 'netbible',
+    translation: 'nasb',
+    footnotes: false, // netbible.org only serves notes for the NET
+    copyright: 'Scripture taken from the NEW AMERICAN STANDARD BIBLE®, Copyright © 1960, 1962, 1963, 1968, 1971, 1972, 1973, 1975, 1977, 1995 by The Lockman Foundation. Used by permission.',
+    versification: 'english'
   }
 ];
 
@@ -28,79 +39,189 @@ export const OUTPUT_STYLES: StyleInfo[] = [
     code: 'manual',
     name: 'Manual',
     description: 'Full control over formatting options'
+  },
+  {
+    code: 'reading',
+    name: 'Reading',
+    description: 'Flowing paragraphs with superscript verse numbers'
   }
 ];
 
+export const APP_VERSION: string = packageInfo.version;
+
 export const DEFAULT_OUTPUT_DIR = './output';
 
-export const BIBLE_BOOKS = [
+export const SPEED_MODES: SpeedMode[] = ['fast', 'balanced'];
+
+export const SOURCE_NAMES: SourceName[] = ['netbible', 'usfm', 'usx', 'osis'];
+
+export const VERSIFICATIONS: Versification[] = ['english', 'original'];
+
+export const PARALLEL_LAYOUTS: ParallelLayout[] = ['table', 'alternating'];
+
+export const STRONGS_MODES: StrongsMode[] = ['links', 'footnotes'];
+
+export const NOTE_LAYOUTS: NoteLayout[] = ['footnotes', 'callouts', 'collapsed'];
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'graphml', 'json'];
+
+export const GRAPH_LEVELS: GraphLevel[] = ['verse', 'chapter', 'book'];
+
+// netbible.org marks original-language words with these classes
+export const ORIGINAL_LANGUAGES: { [className: string]: string } = {
+  greek: 'grc',
+  hebrew: 'hbo',
+  aramaic: 'arc'
+};
+
+// Note types from netbible.org (tn, sn, tc, map) and the ones local sources
+// map their notes onto (fn, en, cr)
+export const NOTE_TYPES: { [type: string]: NoteTypeInfo } = {
+  tn: { name: "Translator's note", callout: 'note' },
+  sn: { name: 'Study note', callout: 'info' },
+  tc: { name: 'Text-critical note', callout: 'abstract' },
+  map: { name: 'Map note', callout: 'example' },
+  fn: { name: 'Footnote', callout: 'note' },
+  en: { name: 'Endnote', callout: 'note' },
+  cr: { name: 'Cross-reference', callout: 'quote' }
+};
+
+// Innermost first, so a divine name inside red letters sits inside the red span
+export const INLINE_FORMATS: InlineFormat[] = ['divineName', 'added', 'wordsOfJesus'];
+
+export const FORMAT_MODES: FormatMode[] = ['off', 'markdown', 'html'];
+
+export const DEFAULT_FORMATTING: Record<OutputStyle, InlineFormatting> = {
+  study: { added: 'markdown', divineName: 'markdown', wordsOfJesus: 'html' },
+  simple: { added: 'off', divineName: 'markdown', wordsOfJesus: 'off' },
+  manual: { added: 'markdown', divineName: 'markdown', wordsOfJesus: 'html' },
+  reading: { added: 'off', divineName: 'markdown', wordsOfJesus: 'html' }
+};
+
+export const DEFAULT_FORMAT_CLASSES: Record<InlineFormat, string> = {
+  added: 'added',
+  divineName: 'divine-name',
+  wordsOfJesus: 'words-of-jesus'
+};
+
+export const DEFAULT_SETUP_CONFIG: SetupConfig = {
+  version: 'NET',
+  style: 'study',
+  outputDir: DEFAULT_OUTPUT_DIR,
+  speedMode: 'balanced',
+  cache: true,
+  offline: false
+};
+
+// Request budgets shared by text and footnote downloads
+export const SPEED_PRESETS: Record<SpeedMode, RateLimitOptions> = {
+  fast: { requestsPerSecond: 10, maxInFlight: 6 },
+  balanced: { requestsPerSecond: 6, maxInFlight: 4 }
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000
+};
+
+export const CACHE_DIR_NAME = 'bible2md';
+
+export const CONFIG_FILE_NAMES = ['bible2md.config.json', '.bible2mdrc'];
+
+export const MANIFEST_FILE_NAME = '.bible2md-manifest.json';
+
+// One file per book with the Strong's numbers of its chapters, for --concordance
+export const STRONGS_INDEX_DIR_NAME = '.bible2md-strongs';
+
+export const VALIDATION_REPORT_NAME = '.bible2md-validation.json';
+
+// Folder and index note written by --concordance, inside the version directory
+export const CONCORDANCE_DIR_NAME = 'Strongs';
+export const CONCORDANCE_INDEX_NAME = "Strong's Concordance";
+
+// Folder written by --graph, one file per level and format ("Cross-References/chapter.dot")
+export const GRAPH_DIR_NAME = 'Cross-References';
+
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  FAILURE: 1,
+  USAGE: 2
+} as const;
+
+// The canonical registry of books, in canonical order. Look names up through
+// utils/books.ts, which knows every scheme below.
+const BOOKS: Omit<BibleBook, 'order'>[] = [
   // Old Testament
-  { name: 'Genesis', chapters: 50 },
-  { name: 'Exodus', chapters: 40 },
-  { name: 'Leviticus', chapters: 27 },
-  { name: 'Numbers', chapters: 36 },
-  { name: 'Deuteronomy', chapters: 34 },
-  { name: 'Joshua', chapters: 24 },
-  { name: 'Judges', chapters: 21 },
-  { name: 'Ruth', chapters: 4 },
-  { name: '1 Samuel', chapters: 31 },
-  { name: '2 Samuel', chapters: 24 },
-  { name: '1 Kings', chapters: 22 },
-  { name: '2 Kings', chapters: 25 },
-  { name: '1 Chronicles', chapters: 29 },
-  { name: '2 Chronicles', chapters: 36 },
-  { name: 'Ezra', chapters: 10 },
-  { name: 'Nehemiah', chapters: 13 },
-  { name: 'Esther', chapters: 10 },
-  { name: 'Job', chapters: 42 },
-  { name: 'Psalms', chapters: 150 },
-  { name: 'Proverbs', chapters: 31 },
-  { name: 'Ecclesiastes', chapters: 12 },
-  { name: 'Song of Solomon', chapters: 8 },
-  { name: 'Isaiah', chapters: 66 },
-  { name: 'Jeremiah', chapters: 52 },
-  { name: 'Lamentations', chapters: 5 },
-  { name: 'Ezekiel', chapters: 48 },
-  { name: 'Daniel', chapters: 12 },
-  { name: 'Hosea', chapters: 14 },
-  { name: 'Joel', chapters: 3 },
-  { name: 'Amos', chapters: 9 },
-  { name: 'Obadiah', chapters: 1 },
-  { name: 'Jonah', chapters: 4 },
-  { name: 'Micah', chapters: 7 },
-  { name: 'Nahum', chapters: 3 },
-  { name: 'Habakkuk', chapters: 3 },
-  { name: 'Zephaniah', chapters: 3 },
-  { name: 'Haggai', chapters: 2 },
-  { name: 'Zechariah', chapters: 14 },
-  { name: 'Malachi', chapters: 4 },
+  { name: 'Genesis', chapters: 50, testament: 'Old', usfm: 'GEN', osis: 'Gen', sbl: 'Gen', netbible: 'Ge', aliases: ['Gn'] },
+  { name: 'Exodus', chapters: 40, testament: 'Old', usfm: 'EXO', osis: 'Exod', sbl: 'Exod', netbible: 'Ex', aliases: [] },
+  { name: 'Leviticus', chapters: 27, testament: 'Old', usfm: 'LEV', osis: 'Lev', sbl: 'Lev', netbible: 'Le', aliases: ['Lv'] },
+  { name: 'Numbers', chapters: 36, testament: 'Old', usfm: 'NUM', osis: 'Num', sbl: 'Num', netbible: 'Nu', aliases: ['Nm'] },
+  { name: 'Deuteronomy', chapters: 34, testament: 'Old', usfm: 'DEU', osis: 'Deut', sbl: 'Deut', netbible: 'De', aliases: ['Dt'] },
+  { name: 'Joshua', chapters: 24, testament: 'Old', usfm: 'JOS', osis: 'Josh', sbl: 'Josh', netbible: 'Jos', aliases: [] },
+  { name: 'Judges', chapters: 21, testament: 'Old', usfm: 'JDG', osis: 'Judg', sbl: 'Judg', netbible: 'Jdg', aliases: ['Jg'] },
+  { name: 'Ruth', chapters: 4, testament: 'Old', usfm: 'RUT', osis: 'Ruth', sbl: 'Ruth', netbible: 'Ru', aliases: [] },
+  { name: '1 Samuel', chapters: 31, testament: 'Old', usfm: '1SA', osis: '1Sam', sbl: '1 Sam', netbible: '1Sa', aliases: ['1 Sm', 'I Samuel'] },
+  { name: '2 Samuel', chapters: 24, testament: 'Old', usfm: '2SA', osis: '2Sam', sbl: '2 Sam', netbible: '2Sa', aliases: ['2 Sm', 'II Samuel'] },
+  { name: '1 Kings', chapters: 22, testament: 'Old', usfm: '1KI', osis: '1Kgs', sbl: '1 Kgs', netbible: '1Ki', aliases: ['1 Kg', 'I Kings'] },
+  { name: '2 Kings', chapters: 25, testament: 'Old', usfm: '2KI', osis: '2Kgs', sbl: '2 Kgs', netbible: '2Ki', aliases: ['2 Kg', 'II Kings'] },
+  { name: '1 Chronicles', chapters: 29, testament: 'Old', usfm: '1CH', osis: '1Chr', sbl: '1 Chr', netbible: '1Ch', aliases: ['1 Chron', 'I Chronicles'] },
+  { name: '2 Chronicles', chapters: 36, testament: 'Old', usfm: '2CH', osis: '2Chr', sbl: '2 Chr', netbible: '2Ch', aliases: ['2 Chron', 'II Chronicles'] },
+  { name: 'Ezra', chapters: 10, testament: 'Old', usfm: 'EZR', osis: 'Ezra', sbl: 'Ezra', netbible: 'Ezr', aliases: [] },
+  { name: 'Nehemiah', chapters: 13, testament: 'Old', usfm: 'NEH', osis: 'Neh', sbl: 'Neh', netbible: 'Ne', aliases: [] },
+  { name: 'Esther', chapters: 10, testament: 'Old', usfm: 'EST', osis: 'Esth', sbl: 'Esth', netbible: 'Es', aliases: [] },
+  { name: 'Job', chapters: 42, testament: 'Old', usfm: 'JOB', osis: 'Job', sbl: 'Job', netbible: 'Job', aliases: ['Jb'] },
+  { name: 'Psalms', chapters: 150, testament: 'Old', usfm: 'PSA', osis: 'Ps', sbl: 'Ps', netbible: 'Ps', aliases: ['Psalm', 'Pss', 'Ps'] },
+  { name: 'Proverbs', chapters: 31, testament: 'Old', usfm: 'PRO', osis: 'Prov', sbl: 'Prov', netbible: 'Pr', aliases: ['Prv'] },
+  { name: 'Ecclesiastes', chapters: 12, testament: 'Old', usfm: 'ECC', osis: 'Eccl', sbl: 'Eccl', netbible: 'Ec', aliases: ['Eccles', 'Qoheleth'] },
+  { name: 'Song of Solomon', chapters: 8, testament: 'Old', usfm: 'SNG', osis: 'Song', sbl: 'Song', netbible: 'So', aliases: ['Song of Songs', 'Canticles', 'Sg'] },
+  { name: 'Isaiah', chapters: 66, testament: 'Old', usfm: 'ISA', osis: 'Isa', sbl: 'Isa', netbible: 'Is', aliases: [] },
+  { name: 'Jeremiah', chapters: 52, testament: 'Old', usfm: 'JER', osis: 'Jer', sbl: 'Jer', netbible: 'Jer', aliases: ['Jr'] },
+  { name: 'Lamentations', chapters: 5, testament: 'Old', usfm: 'LAM', osis: 'Lam', sbl: 'Lam', netbible: 'La', aliases: [] },
+  { name: 'Ezekiel', chapters: 48, testament: 'Old', usfm: 'EZK', osis: 'Ezek', sbl: 'Ezek', netbible: 'Eze', aliases: [] },
+  { name: 'Daniel', chapters: 12, testament: 'Old', usfm: 'DAN', osis: 'Dan', sbl: 'Dan', netbible: 'Da', aliases: ['Dn'] },
+  { name: 'Hosea', chapters: 14, testament: 'Old', usfm: 'HOS', osis: 'Hos', sbl: 'Hos', netbible: 'Ho', aliases: [] },
+  { name: 'Joel', chapters: 3, testament: 'Old', usfm: 'JOL', osis: 'Joel', sbl: 'Joel', netbible: 'Joe', aliases: ['Jl'] },
+  { name: 'Amos', chapters: 9, testament: 'Old', usfm: 'AMO', osis: 'Amos', sbl: 'Amos', netbible: 'Am', aliases: [] },
+  { name: 'Obadiah', chapters: 1, testament: 'Old', usfm: 'OBA', osis: 'Obad', sbl: 'Obad', netbible: 'Ob', aliases: [] },
+  { name: 'Jonah', chapters: 4, testament: 'Old', usfm: 'JON', osis: 'Jonah', sbl: 'Jonah', netbible: 'Jon', aliases: ['Jnh'] },
+  { name: 'Micah', chapters: 7, testament: 'Old', usfm: 'MIC', osis: 'Mic', sbl: 'Mic', netbible: 'Mic', aliases: [] },
+  { name: 'Nahum', chapters: 3, testament: 'Old', usfm: 'NAM', osis: 'Nah', sbl: 'Nah', netbible: 'Na', aliases: [] },
+  { name: 'Habakkuk', chapters: 3, testament: 'Old', usfm: 'HAB', osis: 'Hab', sbl: 'Hab', netbible: 'Hab', aliases: ['Hb'] },
+  { name: 'Zephaniah', chapters: 3, testament: 'Old', usfm: 'ZEP', osis: 'Zeph', sbl: 'Zeph', netbible: 'Zep', aliases: ['Zp'] },
+  { name: 'Haggai', chapters: 2, testament: 'Old', usfm: 'HAG', osis: 'Hag', sbl: 'Hag', netbible: 'Hag', aliases: ['Hg'] },
+  { name: 'Zechariah', chapters: 14, testament: 'Old', usfm: 'ZEC', osis: 'Zech', sbl: 'Zech', netbible: 'Zec', aliases: ['Zc'] },
+  { name: 'Malachi', chapters: 4, testament: 'Old', usfm: 'MAL', osis: 'Mal', sbl: 'Mal', netbible: 'Mal', aliases: ['Ml'] },
   
   // New Testament
-  { name: 'Matthew', chapters: 28 },
-  { name: 'Mark', chapters: 16 },
-  { name: 'Luke', chapters: 24 },
-  { name: 'John', chapters: 21 },
-  { name: 'Acts', chapters: 28 },
-  { name: 'Romans', chapters: 16 },
-  { name: '1 Corinthians', chapters: 16 },
-  { name: '2 Corinthians', chapters: 13 },
-  { name: 'Galatians', chapters: 6 },
-  { name: 'Ephesians', chapters: 6 },
-  { name: 'Philippians', chapters: 4 },
-  { name: 'Colossians', chapters: 4 },
-  { name: '1 Thessalonians', chapters: 5 },
-  { name: '2 Thessalonians', chapters: 3 },
-  { name: '1 Timothy', chapters: 6 },
-  { name: '2 Timothy', chapters: 4 },
-  { name: 'Titus', chapters: 3 },
-  { name: 'Philemon', chapters: 1 },
-  { name: 'Hebrews', chapters: 13 },
-  { name: 'James', chapters: 5 },
-  { name: '1 Peter', chapters: 5 },
-  { name: '2 Peter', chapters: 3 },
-  { name: '1 John', chapters: 5 },
-  { name: '2 John', chapters: 1 },
-  { name: '3 John', chapters: 1 },
-  { name: 'Jude', chapters: 1 },
-  { name: 'Revelation', chapters: 22 }
-];
\ No newline at end of file
+  { name: 'Matthew', chapters: 28, testament: 'New', usfm: 'MAT', osis: 'Matt', sbl: 'Matt', netbible: 'Mt', aliases: [] },
+  { name: 'Mark', chapters: 16, testament: 'New', usfm: 'MRK', osis: 'Mark', sbl: 'Mark', netbible: 'Mk', aliases: [] },
+  { name: 'Luke', chapters: 24, testament: 'New', usfm: 'LUK', osis: 'Luke', sbl: 'Luke', netbible: 'Lk', aliases: ['Lu'] },
+  { name: 'John', chapters: 21, testament: 'New', usfm: 'JHN', osis: 'John', sbl: 'John', netbible: 'Jn', aliases: [] },
+  { name: 'Acts', chapters: 28, testament: 'New', usfm: 'ACT', osis: 'Acts', sbl: 'Acts', netbible: 'Ac', aliases: [] },
+  { name: 'Romans', chapters: 16, testament: 'New', usfm: 'ROM', osis: 'Rom', sbl: 'Rom', netbible: 'Ro', aliases: ['Rm'] },
+  { name: '1 Corinthians', chapters: 16, testament: 'New', usfm: '1CO', osis: '1Cor', sbl: '1 Cor', netbible: '1Co', aliases: ['I Corinthians'] },
+  { name: '2 Corinthians', chapters: 13, testament: 'New', usfm: '2CO', osis: '2Cor', sbl: '2 Cor', netbible: '2Co', aliases: ['II Corinthians'] },
+  { name: 'Galatians', chapters: 6, testament: 'New', usfm: 'GAL', osis: 'Gal', sbl: 'Gal', netbible: 'Ga', aliases: [] },
+  { name: 'Ephesians', chapters: 6, testament: 'New', usfm: 'EPH', osis: 'Eph', sbl: 'Eph', netbible: 'Eph', aliases: [] },
+  { name: 'Philippians', chapters: 4, testament: 'New', usfm: 'PHP', osis: 'Phil', sbl: 'Phil', netbible: 'Php', aliases: [] },
+  { name: 'Colossians', chapters: 4, testament: 'New', usfm: 'COL', osis: 'Col', sbl: 'Col', netbible: 'Col', aliases: [] },
+  { name: '1 Thessalonians', chapters: 5, testament: 'New', usfm: '1TH', osis: '1Thess', sbl: '1 Thess', netbible: '1Th', aliases: ['1 Thes', 'I Thessalonians'] },
+  { name: '2 Thessalonians', chapters: 3, testament: 'New', usfm: '2TH', osis: '2Thess', sbl: '2 Thess', netbible: '2Th', aliases: ['2 Thes', 'II Thessalonians'] },
+  { name: '1 Timothy', chapters: 6, testament: 'New', usfm: '1TI', osis: '1Tim', sbl: '1 Tim', netbible: '1Ti', aliases: ['I Timothy'] },
+  { name: '2 Timothy', chapters: 4, testament: 'New', usfm: '2TI', osis: '2Tim', sbl: '2 Tim', netbible: '2Ti', aliases: ['II Timothy'] },
+  { name: 'Titus', chapters: 3, testament: 'New', usfm: 'TIT', osis: 'Titus', sbl: 'Titus', netbible: 'Tit', aliases: [] },
+  { name: 'Philemon', chapters: 1, testament: 'New', usfm: 'PHM', osis: 'Phlm', sbl: 'Phlm', netbible: 'Phm', aliases: ['Philem'] },
+  { name: 'Hebrews', chapters: 13, testament: 'New', usfm: 'HEB', osis: 'Heb', sbl: 'Heb', netbible: 'Heb', aliases: [] },
+  { name: 'James', chapters: 5, testament: 'New', usfm: 'JAS', osis: 'Jas', sbl: 'Jas', netbible: 'Jas', aliases: ['Jm'] },
+  { name: '1 Peter', chapters: 5, testament: 'New', usfm: '1PE', osis: '1Pet', sbl: '1 Pet', netbible: '1Pe', aliases: ['1 Pt', 'I Peter'] },
+  { name: '2 Peter', chapters: 3, testament: 'New', usfm: '2PE', osis: '2Pet', sbl: '2 Pet', netbible: '2Pe', aliases: ['2 Pt', 'II Peter'] },
+  { name: '1 John', chapters: 5, testament: 'New', usfm: '1JN', osis: '1John', sbl: '1 John', netbible: '1Jn', aliases: ['I John'] },
+  { name: '2 John', chapters: 1, testament: 'New', usfm: '2JN', osis: '2John', sbl: '2 John', netbible: '2Jn', aliases: ['II John'] },
+  { name: '3 John', chapters: 1, testament: 'New', usfm: '3JN', osis: '3John', sbl: '3 John', netbible: '3Jn', aliases: ['III John'] },
+  { name: 'Jude', chapters: 1, testament: 'New', usfm: 'JUD', osis: 'Jude', sbl: 'Jude', netbible: 'Jud', aliases: [] },
+  { name: 'Revelation', chapters: 22, testament: 'New', usfm: 'REV', osis: 'Rev', sbl: 'Rev', netbible: 'Re', aliases: ['Revelations', 'Apocalypse', 'Rv'] }
+];
+
+export const BIBLE_BOOKS: BibleBook[] = BOOKS.map((book, index) => ({ ...book, order: index + 1 }));
\ No newline at end of file
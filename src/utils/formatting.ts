@@ -0,0 +1,76 @@
+import { FormattingConfig, InlineFormat, InlineFormatting, OutputStyle, TextSegment, VerseLine } from '../types/index.js';
+import { DEFAULT_FORMAT_CLASSES, DEFAULT_FORMATTING } from './constants.js';
+
+// Collapses whitespace the way plain verse text is cleaned (across segment
+// boundaries too), trims both ends and merges neighbours with equal formats
+// and Strong's numbers
+export function normalizeSegments(raw: TextSegment[]): TextSegment[] {
+  const segments: TextSegment[] = [];
+
+  for (const segment of raw) {
+    const previous = segments[segments.length - 1];
+    let text = segment.text.replace(/\s+/g, ' ');
+    if (text.startsWith(' ') && (!previous || previous.text.endsWith(' '))) {
+      text = text.slice(1);
+    }
+    if (!text) continue;
+
+    if (previous && sameFormats(previous.formats, segment.formats) && sameStrongs(previous.strongs, segment.strongs)) {
+      previous.text += text;
+    } else {
+      segments.push({ text, formats: [...segment.formats], ...(segment.strongs && { strongs: segment.strongs }) });
+    }
+  }
+
+  while (segments.length > 0) {
+    const last = segments[segments.length - 1];
+    last.text = last.text.trimEnd();
+    if (last.text) break;
+    segments.pop();
+  }
+
+  return segments;
+}
+
+// Segments are only worth keeping when some of the text is formatted or
+// tagged with Strong's numbers
+export function hasMarkup(segments: TextSegment[]): boolean {
+  return segments.some(segment => segment.formats.length > 0 || segment.strongs);
+}
+
+export function segmentsText(segments: TextSegment[]): string {
+  return segments.map(segment => segment.text).join('');
+}
+
+// Poetry lines cleaned one by one, keeping segments only where something is
+// formatted; lines left empty are dropped
+export function buildVerseLines(raw: { indent: number; segments: TextSegment[] }[]): VerseLine[] {
+  return raw
+    .map(line => ({ indent: line.indent, segments: normalizeSegments(line.segments) }))
+    .filter(line => line.segments.length > 0)
+    .map(({ indent, segments }) => ({
+      text: segmentsText(segments),
+      indent,
+      ...(hasMarkup(segments) && { segments })
+    }));
+}
+
+export function linesText(lines: VerseLine[]): string {
+  return lines.map(line => line.text).join(' ');
+}
+
+export function resolveFormatting(style: OutputStyle, config: FormattingConfig = {}): InlineFormatting {
+  return { ...DEFAULT_FORMATTING[style], ...config[style] };
+}
+
+export function resolveFormatClasses(config: FormattingConfig = {}): Record<InlineFormat, string> {
+  return { ...DEFAULT_FORMAT_CLASSES, ...config.classes };
+}
+
+function sameFormats(a: InlineFormat[], b: InlineFormat[]): boolean {
+  return a.length === b.length && a.every(format => b.includes(format));
+}
+
+function sameStrongs(a: string[] = [], b: string[] = []): boolean {
+  return a.join() === b.join();
+}
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { createRequire } from 'module';
+
+// package.json sits two levels up from both src/utils and dist/utils, so the
+// CLI reports the version it was published with
+const packageInfo: { name: string; version: string } = createRequire(import.meta.url)('../../package.json');
+
+export default packageInfo;
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { BibleBook, ReferenceMatch, VerseAnchor, VerseReference } from '../types/index.js';
+import { findBook, findBookByName, findBookByNameOrAlias, findBookByOsisCode } from './books.js';
+
+// A book name ("Gen", "1 Cor.", "Song of Solomon"), a verse marker ("v.",
+// "vv.", "verses") or neither, then a location: "3", "3:16", "3:16-18",
+// "1:1–2:3" or "23-24". Verse letters ("1b") are allowed and ignored.
+const BOOK = String.raw`(?:(?:[1-3]|I{1,3})\s?)?[A-Z][A-Za-z]+\.?(?:\s+of\s+[A-Z][a-z]+)?`;
+const MARKER = String.raw`[Vv]v?\.|[Vv]erses?`;
+const LOCATION = String.raw`\d+(?::\d+[a-f]?)?(?:\s*[-–—]\s*\d+(?::\d+[a-f]?)?)?`;
+const REFERENCE_PATTERN = new RegExp(String.raw`(?:\b(${MARKER})\s*|\b(${BOOK})\s+)?\b(${LOCATION})(?![\d:])`, 'g');
+// More locations of the same book: "; 14:1", ", 18", " and 5-7"
+const CONTINUATION_PATTERN = new RegExp(String.raw`(\s*[;,]\s*|\s+and\s+)(${LOCATION})(?![\d:])`, 'y');
+const LOCATION_PARTS = /^(\d+)(?::(\d+)[a-f]?)?(?:\s*[-–—]\s*(\d+)(?::(\d+)[a-f]?)?)?$/;
+
+// Where a reference is written: the book (and chapter) that bare "3:16" and
+// "vv. 3, 5" refer to
+export interface ReferenceContext {
+  book?: string;
+  chapter?: number;
+}
+
+// Every reference in free text such as "Gen 1:1–2:3; 4:1, 5; Ps 23" or "vv. 3, 5",
+// with where each one starts. A bare number only counts after a verse marker or a
+// book written out in full (or by an alias such as "Ps"); codes need a verse.
+export function findReferences(text: string, context: ReferenceContext = {}): ReferenceMatch[] {
+  const matches: ReferenceMatch[] = [];
+  let lastBook = context.book ? findBookByName(context.book) : undefined;
+  REFERENCE_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = REFERENCE_PATTERN.exec(text)) !== null) {
+    const [matched, marker, bookText, location] = match;
+    const named = bookText ? findBook(bookText) : undefined;
+
+    // A word that isn't a book ("Cf. 3:16", "In 1 John 2:3"): look again just past it
+    if (bookText && !named) {
+      REFERENCE_PATTERN.lastIndex = match.index + 1;
+      continue;
+    }
+
+    const book = named ?? lastBook;
+    const verses = marker !== undefined;
+
+    // A chapter alone needs the book spelled out: "Isaiah 2", but not "Is 2 of them"
+    if (named && !location.includes(':') && !findBookByNameOrAlias(bookText)) continue;
+
+    // Plain numbers, and verse markers without a chapter to apply to
+    if (!book || (!named && !verses && !location.includes(':')) || (verses && !context.chapter)) continue;
+
+    const head = verses ? verseLocation(location, context.chapter!) : parseLocation(location);
+    if (!head || !inBook(head, book)) continue;
+
+    const found: ReferenceMatch[] = [{ reference: { book: book.name, ...head, display: matched }, index: match.index }];
+    lastBook = book;
+
+    // Follow "; 14:1" and ", 18" for as long as they continue this book
+    let previous = found[0].reference;
+    CONTINUATION_PATTERN.lastIndex = match.index + matched.length;
+    let next: RegExpExecArray | null;
+    while ((next = CONTINUATION_PATTERN.exec(text)) !== null) {
+      const [whole, separator, more] = next;
+      if (startsNumberedBook(text, more, next.index + whole.length)) break;
+
+      const nextLocation = continuation(more, separator.trim(), previous, verses);
+      if (!nextLocation || !inBook(nextLocation, book)) break;
+
+      previous = { book: book.name, ...nextLocation, display: more };
+      found.push({ reference: previous, index: next.index + whole.length - more.length });
+      REFERENCE_PATTERN.lastIndex = CONTINUATION_PATTERN.lastIndex;
+    }
+
+    matches.push(...found);
+  }
+
+  return matches;
+}
+
+export function parseReferences(text: string, currentBook?: string): VerseReference[] {
+  return findReferences(text, { book: currentBook }).map(match => match.reference);
+}
+
+// One reference such as "Jn 3:16-18", "Ps 23" or "Gen 1:1–2:3"
+export function parseReference(text: string): VerseReference | null {
+  return findReferences(text)[0]?.reference ?? null;
+}
+
+// "John 3:16–18", "Genesis 1:1–2:3" or "Psalms 23", whatever the original looked like
+export function formatReference(reference: Omit<VerseReference, 'display'>): string {
+  const { book, chapter, verse, endChapter, endVerse } = reference;
+  const start = verse ? `${chapter}:${verse}` : `${chapter}`;
+
+  if (endChapter && endChapter !== chapter) {
+    return `${book} ${start}–${endVerse ? `${endChapter}:${endVerse}` : endChapter}`;
+  }
+  return `${book} ${start}${endVerse && endVerse !== verse ? `–${endVerse}` : ''}`;
+}
+
+// Study style's verse headings
+export const verseHeading: VerseAnchor = (_book, _chapter, verse) => `${verse}`;
+
+// A link to the first verse (or the chapter), showing the original text
+export function referenceLink(reference: VerseReference, display: string = reference.display, anchor: VerseAnchor = verseHeading): string {
+  const { book, chapter, verse } = reference;
+  const target = verse ? anchor(book, chapter, verse) : undefined;
+  return target ? `[[${book} ${chapter}#${target}|${display}]]` : `[[${book} ${chapter}|${display}]]`;
+}
+
+// OSIS references look like "John.3.16", "John.3.16-John.3.18", "Gen.1.1-Gen.2.3" or "Ps.23"
+export function parseOsisRef(osisRef: string, display?: string): VerseReference | null {
+  const [start, end] = osisRef.replace(/^\w+:/, '').split('-');
+  const [code, chapter, verse] = start.split('.');
+  const book = findBookByOsisCode(code);
+  if (!book || !chapter) return null;
+
+  const [, endChapter, endVerse] = end?.split('.') ?? [];
+  const reference = {
+    book: book.name,
+    chapter: parseInt(chapter),
+    verse: verse ? parseInt(verse) : undefined,
+    endChapter: endChapter && endChapter !== chapter ? parseInt(endChapter) : undefined,
+    endVerse: endVerse ? parseInt(endVerse) : undefined
+  };
+  return { ...reference, display: display?.trim() || formatReference(reference) };
+}
+
+type Location = Omit<VerseReference, 'book' | 'display'>;
+
+function parseLocation(location: string): Location | null {
+  const match = location.match(LOCATION_PARTS);
+  if (!match) return null;
+
+  const [, chapter, verse, endFirst, endSecond] = match.map(part => part === undefined ? undefined : parseInt(part));
+  if (endSecond !== undefined) {
+    return { chapter: chapter!, verse, ...(endFirst !== chapter && { endChapter: endFirst }), endVerse: endSecond };
+  }
+  if (verse !== undefined) {
+    return { chapter: chapter!, verse, endVerse: endFirst };
+  }
+  // "Ps 23-24" is a range of chapters
+  return { chapter: chapter!, endChapter: endFirst };
+}
+
+// After "v." or "vv." the numbers are verses of the chapter being read
+function verseLocation(location: string, chapter: number): Location | null {
+  const match = location.match(/^(\d+)[a-f]?(?:\s*[-–—]\s*(\d+)[a-f]?)?$/);
+  if (!match) return null;
+
+  return { chapter, verse: parseInt(match[1]), endVerse: match[2] ? parseInt(match[2]) : undefined };
+}
+
+// "; 14" is another chapter; ", 18" and "and 18" are another verse of the
+// chapter the previous reference ended in, unless that was a whole chapter
+function continuation(location: string, separator: string, previous: VerseReference, verses: boolean): Location | null {
+  if (location.includes(':')) return parseLocation(location);
+
+  const chapter = previous.endChapter ?? previous.chapter;
+  if (verses || (separator !== ';' && previous.verse !== undefined)) {
+    return verseLocation(location, chapter);
+  }
+  return parseLocation(location);
+}
+
+// "…, 2 Kings 3:4": the 2 belongs to the next book, not to this reference
+function startsNumberedBook(text: string, location: string, end: number): boolean {
+  const word = text.slice(end).match(/^\s*([A-Z][A-Za-z]+\.?)\s+\d/);
+  return word !== null && /^\d$/.test(location) && findBook(`${location} ${word[1]}`) !== undefined;
+}
+
+function inBook(location: Location, book: BibleBook): boolean {
+  return location.chapter >= 1 && location.chapter <= book.chapters && (location.endChapter ?? location.chapter) <= book.chapters;
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { RetryOptions } from '../types/index.js';
+
+// Statuses worth retrying: timeouts, rate limiting and server-side failures
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export function isRetryableStatus(status: number | undefined): boolean {
+  // No status means the request never got a response (network error or timeout)
+  return status === undefined || RETRYABLE_STATUSES.includes(status);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | undefined, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+// Exponential backoff with full jitter, unless the server said how long to wait
+export function computeRetryDelay(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterMs: number | null = null,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, options.maxRetryAfterMs);
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { BibleBook, BookSelection } from '../types/index.js';
+import { BIBLE_BOOKS } from './constants.js';
+import { findBook } from './books.js';
+
+const TESTAMENT_ALIASES: { [key: string]: BibleBook['testament'] } = {
+  'ot': 'Old',
+  'old testament': 'Old',
+  'nt': 'New',
+  'new testament': 'New'
+};
+
+// Resolve specs such as "Romans", "John 3-5", "Psalms 1-41" or "NT" (comma or
+// semicolon separated) into canonical book order. No specs means the whole Bible.
+export function parseBookSelection(specs: string[] = []): BookSelection[] {
+  const parts = specs
+    .flatMap(spec => spec.split(/[,;]/))
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  if (parts.length === 0) {
+    return BIBLE_BOOKS.map(book => ({ name: book.name, chapters: allChapters(book) }));
+  }
+
+  const selected = new Map<string, Set<number>>();
+
+  const select = (book: BibleBook, chapters: number[]) => {
+    const existing = selected.get(book.name) ?? new Set<number>();
+    chapters.forEach(chapter => existing.add(chapter));
+    selected.set(book.name, existing);
+  };
+
+  for (const part of parts) {
+    const testament = TESTAMENT_ALIASES[normalize(part)];
+    if (testament) {
+      BIBLE_BOOKS
+        .filter(book => book.testament === testament)
+        .forEach(book => select(book, allChapters(book)));
+      continue;
+    }
+
+    const { book, chapters } = parseSpec(part);
+    select(book, chapters);
+  }
+
+  // Keep canonical order regardless of the order the specs were given in
+  return BIBLE_BOOKS
+    .filter(book => selected.has(book.name))
+    .map(book => ({
+      name: book.name,
+      chapters: [...selected.get(book.name)!].sort((a, b) => a - b)
+    }));
+}
+
+export function countSelectedChapters(selection: BookSelection[]): number {
+  return selection.reduce((sum, book) => sum + book.chapters.length, 0);
+}
+
+function parseSpec(spec: string): { book: BibleBook; chapters: number[] } {
+  const match = spec.match(/^(.+?)(?:\s+(\d+)(?:\s*[-–]\s*(\d+))?)?$/);
+  const book = match ? findBook(match[1]) : undefined;
+
+  if (!match || !book) {
+    throw new Error(`Unknown book in selection: "${spec}"`);
+  }
+
+  const [, , start, end] = match;
+  if (!start) {
+    return { book, chapters: allChapters(book) };
+  }
+
+  const first = parseInt(start);
+  const last = end ? parseInt(end) : first;
+
+  if (first < 1 || last > book.chapters) {
+    throw new Error(`Invalid chapters in "${spec}": ${book.name} has ${book.chapters} chapters`);
+  }
+  if (first > last) {
+    throw new Error(`Invalid chapter range in "${spec}": ${first} is after ${last}`);
+  }
+
+  return {
+    book,
+    chapters: Array.from({ length: last - first + 1 }, (_, idx) => first + idx)
+  };
+}
+
+function normalize(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function allChapters(book: BibleBook): number[] {
+  return Array.from({ length: book.chapters }, (_, idx) => idx + 1);
+}
\ No newline at end of file
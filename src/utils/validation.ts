@@ -0,0 +1,92 @@
+import { ChapterValidation, ParsedChapter, Versification } from '../types/index.js';
+import { chapterVerses } from './chapters.js';
+import { expectedVerseCount, isOptionalVerse } from './versification.js';
+
+// Compare the verses a source produced for a chapter with the versification,
+// so a verse the parser skipped doesn't just disappear
+export function validateChapter(chapter: ParsedChapter, versification: Versification): ChapterValidation {
+  const { book, chapter: number } = chapter;
+  const expected = expectedVerseCount(book, number, versification);
+  const verses = chapterVerses(chapter.sections).map(verse => verse.number);
+
+  const seen = new Set<number>();
+  const duplicated = new Set<number>();
+  const outOfOrder: number[] = [];
+  let highest = 0;
+  verses.forEach(verse => {
+    if (seen.has(verse)) {
+      duplicated.add(verse);
+    } else if (verse < highest) {
+      outOfOrder.push(verse);
+    }
+    seen.add(verse);
+    highest = Math.max(highest, verse);
+  });
+
+  const missing = expected === undefined ? [] : Array.from({ length: expected }, (_, i) => i + 1)
+    .filter(verse => !seen.has(verse) && !isOptionalVerse(book, number, verse));
+  const unexpected = expected === undefined ? [] : [...seen].filter(verse => verse > expected).sort((a, b) => a - b);
+
+  return {
+    book,
+    chapter: number,
+    ...(expected !== undefined ? { expected } : {}),
+    verses: verses.length,
+    missing,
+    duplicated: [...duplicated].sort((a, b) => a - b),
+    outOfOrder,
+    unexpected
+  };
+}
+
+// A requested chapter the source never returned, which would otherwise go unnoticed
+export function absentChapter(book: string, chapter: number, versification: Versification): ChapterValidation {
+  const expected = expectedVerseCount(book, chapter, versification);
+  return {
+    book,
+    chapter,
+    ...(expected !== undefined ? { expected } : {}),
+    verses: 0,
+    missing: [],
+    duplicated: [],
+    outOfOrder: [],
+    unexpected: [],
+    absent: true
+  };
+}
+
+export function hasProblems(validation: ChapterValidation): boolean {
+  const { missing, duplicated, outOfOrder, unexpected, absent } = validation;
+  return Boolean(absent) || missing.length + duplicated.length + outOfOrder.length + unexpected.length > 0;
+}
+
+// "missing 4-6, 9; duplicated 12" for the run summary
+export function describeProblems(validation: ChapterValidation): string {
+  if (validation.absent) return 'not provided by the source';
+
+  const parts = [
+    ['missing', validation.missing],
+    ['duplicated', validation.duplicated],
+    ['out of order', validation.outOfOrder],
+    ['beyond the last verse', validation.unexpected]
+  ] as const;
+
+  return parts
+    .filter(([, verses]) => verses.length > 0)
+    .map(([label, verses]) => `${label} ${verseRanges(verses)}`)
+    .join('; ');
+}
+
+// [4, 5, 6, 9] → "4-6, 9"
+function verseRanges(verses: readonly number[]): string {
+  const ranges: string[] = [];
+  let start = verses[0];
+
+  verses.forEach((verse, index) => {
+    if (verses[index + 1] === verse + 1) return;
+    ranges.push(start === verse ? `${verse}` : `${start}-${verse}`);
+    start = verses[index + 1];
+  });
+
+  return ranges.join(', ');
+}
\ No newline at end of file